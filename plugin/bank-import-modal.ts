@@ -0,0 +1,263 @@
+/**
+ * Modal for mapping a bank CSV's columns to transaction fields before importing it
+ */
+
+import { App, Modal, Notice, Setting } from 'obsidian';
+import GenerousAIPlugin from './main';
+import { BankCsvColumns, BankCsvPreset } from './types';
+import {
+	BANK_SOURCE,
+	BankCsvMapping,
+	ParsedCsv,
+	findPreset,
+	getHeaderSignature,
+	guessColumns,
+	normalizeTransactions,
+	parseCsv,
+} from './sync/bank-csv';
+
+/**
+ * Transactions shown in the preview
+ */
+const PREVIEW_ROWS = 5;
+
+/**
+ * Mappable fields: key, label, required
+ */
+const FIELDS: Array<[keyof BankCsvColumns, string, boolean]> = [
+	['date', 'Date', true],
+	['amount', 'Amount', true],
+	['payee', 'Payee', false],
+	['memo', 'Memo', false],
+	['category', 'Category', false],
+	['account', 'Account', false],
+];
+
+export class BankCsvImportModal extends Modal {
+	plugin: GenerousAIPlugin;
+	private fileName: string;
+	private csv: ParsedCsv;
+	private mapping: BankCsvMapping;
+	private presetName: string;
+	private previewEl: HTMLElement | null = null;
+
+	constructor(app: App, plugin: GenerousAIPlugin, fileName: string, text: string) {
+		super(app);
+		this.plugin = plugin;
+		this.fileName = fileName;
+		this.csv = parseCsv(text);
+
+		// Files with a saved mapping's columns start from that mapping
+		const preset = findPreset(plugin.settings.bankCsvPresets, this.csv.headers);
+		this.mapping = preset
+			? {
+					columns: { ...preset.columns },
+					dateFormat: preset.dateFormat,
+					invertAmounts: preset.invertAmounts,
+					accountName: preset.accountName,
+				}
+			: { columns: guessColumns(this.csv.headers), dateFormat: 'auto', invertAmounts: false, accountName: '' };
+		this.presetName = preset?.name ?? '';
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl('h2', { text: 'Import Bank Statement' });
+
+		if (this.csv.headers.length === 0) {
+			contentEl.createEl('p', { text: `No rows found in ${this.fileName}.` });
+			return;
+		}
+
+		contentEl.createEl('p', {
+			text: this.presetName
+				? `${this.fileName} - using saved mapping "${this.presetName}"`
+				: `${this.fileName} - match each field to a column`,
+			cls: 'setting-item-description',
+		});
+
+		for (const [field, label, required] of FIELDS) {
+			new Setting(contentEl).setName(label).addDropdown((dropdown) => {
+				if (!required) {
+					dropdown.addOption('', '(none)');
+				}
+				for (const header of this.csv.headers) {
+					dropdown.addOption(header, header);
+				}
+				dropdown.setValue(this.mapping.columns[field] ?? '').onChange((value) => {
+					if (field === 'date' || field === 'amount') {
+						this.mapping.columns[field] = value;
+					} else {
+						this.mapping.columns[field] = value || undefined;
+					}
+					this.renderPreview();
+				});
+			});
+		}
+
+		new Setting(contentEl).setName('Date format').addDropdown((dropdown) =>
+			dropdown
+				.addOption('auto', 'Detect')
+				.addOption('YYYY-MM-DD', 'YYYY-MM-DD')
+				.addOption('MM/DD/YYYY', 'MM/DD/YYYY')
+				.addOption('DD/MM/YYYY', 'DD/MM/YYYY')
+				.setValue(this.mapping.dateFormat)
+				.onChange((value) => {
+					this.mapping.dateFormat = value as BankCsvPreset['dateFormat'];
+					this.renderPreview();
+				})
+		);
+
+		new Setting(contentEl)
+			.setName('Spending is positive')
+			.setDesc('Turn on if the bank lists purchases as positive amounts')
+			.addToggle((toggle) =>
+				toggle.setValue(this.mapping.invertAmounts).onChange((value) => {
+					this.mapping.invertAmounts = value;
+					this.renderPreview();
+				})
+			);
+
+		new Setting(contentEl)
+			.setName('Account name')
+			.setDesc('Used when the file has no account column')
+			.addText((text) =>
+				text
+					.setPlaceholder('Checking')
+					.setValue(this.mapping.accountName)
+					.onChange((value) => {
+						this.mapping.accountName = value;
+						this.renderPreview();
+					})
+			);
+
+		this.previewEl = contentEl.createDiv();
+		this.renderPreview();
+
+		new Setting(contentEl)
+			.setName('Save mapping as')
+			.setDesc('Reused automatically for files with the same columns. Leave empty to not save.')
+			.addText((text) =>
+				text
+					.setPlaceholder('Bank name')
+					.setValue(this.presetName)
+					.onChange((value) => {
+						this.presetName = value;
+					})
+			);
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button
+					.setButtonText('Import')
+					.setCta()
+					.onClick(async () => {
+						await this.import();
+					})
+			)
+			.addButton((button) => button.setButtonText('Cancel').onClick(() => this.close()));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	/**
+	 * Show the first transactions as they will be imported, and any rows that can't be read
+	 */
+	private renderPreview(): void {
+		if (!this.previewEl) {
+			return;
+		}
+
+		const previewEl = this.previewEl;
+		previewEl.empty();
+
+		const { items, errors } = normalizeTransactions(this.csv, this.mapping);
+		previewEl.createEl('h3', { text: `${items.length.toLocaleString()} transactions` });
+
+		if (items.length > 0) {
+			const list = previewEl.createEl('ul');
+			for (const item of items.slice(0, PREVIEW_ROWS)) {
+				const { date, amount, payeeName, accountName } = item.data;
+				list.createEl('li', {
+					text: `${date}  ${amount.toFixed(2)}  ${payeeName ?? 'Unknown payee'} (${accountName})`,
+				});
+			}
+		}
+
+		if (errors.length > 0) {
+			previewEl.createEl('p', {
+				text: `${errors.length} row(s) will be skipped: ${errors.slice(0, 3).join('; ')}`,
+				cls: 'mod-warning',
+			});
+		}
+	}
+
+	/**
+	 * Save the mapping if named, then import the transactions
+	 */
+	private async import(): Promise<void> {
+		const { items } = normalizeTransactions(this.csv, this.mapping);
+		if (items.length === 0) {
+			new Notice('No transactions to import - check the column mapping');
+			return;
+		}
+
+		this.close();
+		await this.savePreset();
+
+		try {
+			const result = await this.plugin.syncManager.importItems(BANK_SOURCE, items);
+			if (result?.success) {
+				const skipped = result.itemsUnchanged > 0 ? ` (${result.itemsUnchanged} already imported)` : '';
+				new Notice(`Imported ${result.itemsAdded} new transactions from ${this.fileName}${skipped}`);
+			}
+		} catch (error) {
+			console.error('Bank statement import failed:', error);
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			new Notice(`Import failed: ${errorMessage}`);
+		}
+	}
+
+	/**
+	 * Save the mapping as a preset, replacing one with the same name or columns
+	 */
+	private async savePreset(): Promise<void> {
+		const name = this.presetName.trim();
+		if (!name) {
+			return;
+		}
+
+		const preset: BankCsvPreset = {
+			name,
+			headerSignature: getHeaderSignature(this.csv.headers),
+			...this.mapping,
+			columns: { ...this.mapping.columns },
+		};
+
+		this.plugin.settings.bankCsvPresets = [
+			...this.plugin.settings.bankCsvPresets.filter(
+				(existing) => existing.name !== name && existing.headerSignature !== preset.headerSignature
+			),
+			preset,
+		];
+		await this.plugin.saveSettings();
+	}
+}
+
+/**
+ * Ask the user for a file from outside the vault
+ * Resolves to null if the picker is dismissed
+ */
+export function chooseFile(accept: string): Promise<File | null> {
+	return new Promise((resolve) => {
+		const input = document.createElement('input');
+		input.type = 'file';
+		input.accept = accept;
+		input.addEventListener('change', () => resolve(input.files?.[0] ?? null));
+		input.addEventListener('cancel', () => resolve(null));
+		input.click();
+	});
+}
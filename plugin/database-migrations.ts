@@ -0,0 +1,168 @@
+/**
+ * Schema migrations for GenerousAIDatabase
+ * Each entry declares the stores it changes and an optional data transform
+ */
+
+import Dexie, { Transaction } from 'dexie';
+import { hashContent } from './sync/content-hash';
+
+/**
+ * One schema version
+ */
+export interface SchemaMigration {
+	version: number;
+	description: string;
+	/**
+	 * Only the tables this version adds or changes - Dexie carries the others over
+	 * A table set to null is deleted
+	 */
+	stores: Record<string, string | null>;
+	/**
+	 * Transform existing data, run once inside the upgrade transaction
+	 */
+	upgrade?: (tx: Transaction) => Promise<void>;
+}
+
+/**
+ * Every schema version, oldest first
+ * Never edit a released entry - add a new version instead
+ */
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+	{
+		version: 1,
+		description: 'Initial schema',
+		stores: {
+			syncRecords: '++id, source, lastSync, status',
+			cachedData: '++id, source, dataType, externalId, lastUpdated',
+			entities: '++id, type, name, confidence, createdAt',
+			relationships: '++id, fromEntityId, toEntityId, type, confidence',
+			conversations: '++id, startedAt, endedAt',
+			messages: '++id, conversationId, timestamp, role',
+		},
+	},
+	{
+		version: 2,
+		description: 'Add patterns and insights tables',
+		stores: {
+			patterns: '++id, type, detectedAt, significance',
+			insights: '++id, type, createdAt, relevance, dismissed',
+		},
+	},
+	{
+		version: 3,
+		description: 'Add incremental sync cursors',
+		stores: {
+			syncCursors: '++id, &[source+dataType], source',
+		},
+	},
+	{
+		version: 4,
+		description: 'Add sync run history',
+		stores: {
+			syncRuns: '++id, startedAt, status',
+		},
+	},
+	{
+		version: 5,
+		description: 'Index cached data by change time for the change feed',
+		stores: {
+			cachedData: '++id, source, dataType, externalId, lastUpdated, changedAt',
+		},
+	},
+	{
+		version: 6,
+		description: 'Look up cached items by their natural key for batched writes',
+		stores: {
+			cachedData: '++id, source, dataType, externalId, lastUpdated, changedAt, [source+dataType+externalId]',
+		},
+	},
+	{
+		version: 7,
+		description: 'Compound indexes for cached data, entity and relationship lookups, multi-entry entity aliases',
+		stores: {
+			cachedData:
+				'++id, source, dataType, externalId, lastUpdated, changedAt, [source+dataType+externalId], [source+dataType]',
+			entities: '++id, type, name, confidence, createdAt, [type+name], *aliases',
+			relationships: '++id, fromEntityId, toEntityId, type, confidence, [fromEntityId+toEntityId+type]',
+		},
+		upgrade: async (tx) => {
+			// *aliases only indexes arrays, and lookups compare normalized names
+			await tx.table('entities').toCollection().modify((entity) => {
+				const aliases: unknown[] = Array.isArray(entity.aliases) ? entity.aliases : [];
+				entity.aliases = aliases
+					.filter((alias): alias is string => typeof alias === 'string')
+					.map((alias) => alias.trim().toLowerCase())
+					.filter((alias, i, all) => alias.length > 0 && all.indexOf(alias) === i);
+			});
+
+			// Items cached before content hashing would all count as updated on the next sync
+			await tx
+				.table('cachedData')
+				.filter((item) => !item.contentHash)
+				.modify((item) => {
+					item.contentHash = hashContent(item.data);
+				});
+		},
+	},
+	{
+		version: 8,
+		description: 'Index cached items by their own timestamp for retention',
+		stores: {
+			cachedData:
+				'++id, source, dataType, externalId, lastUpdated, changedAt, [source+dataType+externalId], [source+dataType], [source+dataType+timestamp]',
+		},
+		upgrade: async (tx) => {
+			await tx.table('cachedData').toCollection().modify((item) => {
+				item.timestamp = getItemTimestamp(item.data) ?? item.lastUpdated;
+			});
+		},
+	},
+	{
+		version: 9,
+		description: 'Index cached emails by thread',
+		stores: {
+			cachedData:
+				'++id, source, dataType, externalId, lastUpdated, changedAt, [source+dataType+externalId], [source+dataType], [source+dataType+timestamp], [source+dataType+data.threadId]',
+		},
+	},
+	{
+		version: 10,
+		description: 'Track legacy database migration progress per table',
+		stores: {
+			legacyMigration: 'table',
+		},
+	},
+];
+
+/**
+ * When a cached item happened, from the fields each source stores
+ */
+function getItemTimestamp(data: any): number | undefined {
+	if (!data) {
+		return undefined;
+	}
+	if (typeof data.timestamp === 'number') {
+		return data.timestamp;
+	}
+
+	for (const field of ['playedAt', 'addedAt', 'date', 'start', 'modifiedTime']) {
+		const time = typeof data[field] === 'string' ? Date.parse(data[field]) : NaN;
+		if (!isNaN(time)) {
+			return time;
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Register every migration on a database
+ */
+export function applyMigrations(database: Dexie, migrations: SchemaMigration[] = SCHEMA_MIGRATIONS): void {
+	for (const migration of migrations) {
+		const version = database.version(migration.version).stores(migration.stores);
+		if (migration.upgrade) {
+			version.upgrade(migration.upgrade);
+		}
+	}
+}
@@ -4,17 +4,74 @@
  */
 
 import Dexie, { Table } from 'dexie';
+import { DataSource, SyncErrorType } from './sync/types';
+import { hashContent } from './sync/content-hash';
+import { applyMigrations } from './database-migrations';
 
 /**
  * Sync state for individual data sources
  */
 export interface SyncRecord {
 	id?: number;
-	source: 'google' | 'spotify' | 'ynab';
+	source: DataSource;
 	lastSync: number;
 	nextSync: number;
 	status: 'idle' | 'syncing' | 'error';
 	errorMessage?: string;
+	errorType?: SyncErrorType;
+}
+
+/**
+ * Incremental sync position for a source and data type
+ */
+export interface SyncCursor {
+	id?: number;
+	source: string;
+	dataType: string;
+	lastTimestamp: number; // Newest item timestamp seen so far
+	cursor?: string; // Provider cursor, e.g. Gmail historyId, Calendar syncToken, YNAB server_knowledge
+	backfill?: BackfillCheckpoint; // Present while a paginated backfill is unfinished
+	failedIds?: string[]; // Items that failed to fetch, retried on the next sync
+	updatedAt: number;
+}
+
+/**
+ * Resume point for an interrupted paginated backfill
+ */
+export interface BackfillCheckpoint {
+	pageToken: string;
+	itemsFetched: number;
+	params: Record<string, string>; // Request parameters the page token belongs to
+	startedAt: number;
+}
+
+/**
+ * One run of the sync manager across one or more sources
+ */
+export interface SyncRun {
+	id?: number;
+	startedAt: number;
+	endedAt?: number;
+	trigger: 'manual' | 'scheduled' | 'full_resync' | 'import';
+	status: 'running' | 'success' | 'partial' | 'error' | 'cancelled';
+	sources: SyncRunSource[];
+}
+
+/**
+ * Outcome of one source within a sync run
+ */
+export interface SyncRunSource {
+	source: string;
+	startedAt: number;
+	endedAt: number;
+	success: boolean;
+	itemsProcessed: number;
+	itemsAdded: number;
+	itemsUpdated: number;
+	itemsUnchanged: number;
+	errors: string[];
+	errorType?: SyncErrorType;
+	cursors: Array<{ dataType: string; cursor?: string; lastTimestamp: number }>; // Positions after the run
 }
 
 /**
@@ -28,8 +85,29 @@ export interface CachedData {
 	data: any; // JSON data from the source
 	lastUpdated: number;
 	metadata?: any;
+	contentHash?: string; // Hash of `data`, to detect real changes
+	changedAt?: number; // When the item was added or its content last changed
+	timestamp?: number; // When the item itself happened (sent, played, paid), for retention
+	strippedAt?: number; // When retention removed the raw content, keeping metadata
+}
+
+/**
+ * An item to cache
+ */
+export interface CacheWrite {
+	source: string;
+	dataType: string;
+	externalId: string;
+	data: any;
+	metadata?: any;
+	timestamp?: number; // Defaults to the write time
 }
 
+/**
+ * How a cache write changed the stored item
+ */
+export type CacheWriteResult = 'added' | 'updated' | 'unchanged';
+
 /**
  * Extracted entities from The Weave
  */
@@ -121,12 +199,33 @@ export interface Insight {
 	metadata?: any;
 }
 
+/**
+ * How far a table of the legacy shared database has been copied into a vault's database
+ */
+export interface LegacyMigrationState {
+	table: string;
+	lastKey?: number; // Primary key of the last copied row
+	done: boolean;
+}
+
+/**
+ * Database shared by every vault before databases were namespaced per vault
+ */
+export const LEGACY_DATABASE_NAME = 'GenerousAI';
+
+/**
+ * Rows copied per read when migrating the legacy database
+ */
+const MIGRATION_PAGE_SIZE = 500;
+
 /**
  * Main database class
  */
 export class GenerousAIDatabase extends Dexie {
 	// Tables
 	syncRecords!: Table<SyncRecord>;
+	syncCursors!: Table<SyncCursor>;
+	syncRuns!: Table<SyncRun>;
 	cachedData!: Table<CachedData>;
 	entities!: Table<Entity>;
 	relationships!: Table<Relationship>;
@@ -134,37 +233,19 @@ export class GenerousAIDatabase extends Dexie {
 	messages!: Table<Message>;
 	patterns!: Table<Pattern>;
 	insights!: Table<Insight>;
+	legacyMigration!: Table<LegacyMigrationState, string>;
 
-	constructor() {
-		super('GenerousAI');
-
-		// Define schema - version 1
-		this.version(1).stores({
-			syncRecords: '++id, source, lastSync, status',
-			cachedData: '++id, source, dataType, externalId, lastUpdated',
-			entities: '++id, type, name, confidence, createdAt',
-			relationships: '++id, fromEntityId, toEntityId, type, confidence',
-			conversations: '++id, startedAt, endedAt',
-			messages: '++id, conversationId, timestamp, role',
-		});
+	constructor(name: string) {
+		super(name);
 
-		// Version 2: Add patterns and insights tables
-		this.version(2).stores({
-			syncRecords: '++id, source, lastSync, status',
-			cachedData: '++id, source, dataType, externalId, lastUpdated',
-			entities: '++id, type, name, confidence, createdAt',
-			relationships: '++id, fromEntityId, toEntityId, type, confidence',
-			conversations: '++id, startedAt, endedAt',
-			messages: '++id, conversationId, timestamp, role',
-			patterns: '++id, type, detectedAt, significance',
-			insights: '++id, type, createdAt, relevance, dismissed',
-		});
+		// Versions and data transforms are declared in database-migrations.ts
+		applyMigrations(this);
 	}
 
 	/**
 	 * Get sync state for a data source
 	 */
-	async getSyncState(source: 'google' | 'spotify' | 'ynab'): Promise<SyncRecord | undefined> {
+	async getSyncState(source: DataSource): Promise<SyncRecord | undefined> {
 		return await this.syncRecords.where('source').equals(source).first();
 	}
 
@@ -172,7 +253,7 @@ export class GenerousAIDatabase extends Dexie {
 	 * Update sync state for a data source
 	 */
 	async updateSyncState(
-		source: 'google' | 'spotify' | 'ynab',
+		source: DataSource,
 		state: Partial<SyncRecord>
 	): Promise<void> {
 		const existing = await this.getSyncState(source);
@@ -190,8 +271,95 @@ export class GenerousAIDatabase extends Dexie {
 		}
 	}
 
+	/**
+	 * Get the incremental sync cursor for a source and data type
+	 */
+	async getSyncCursor(source: string, dataType: string): Promise<SyncCursor | undefined> {
+		return await this.syncCursors
+			.where('[source+dataType]')
+			.equals([source, dataType])
+			.first();
+	}
+
+	/**
+	 * Update the incremental sync cursor for a source and data type
+	 */
+	async updateSyncCursor(
+		source: string,
+		dataType: string,
+		update: Partial<Pick<SyncCursor, 'lastTimestamp' | 'cursor' | 'backfill'>>
+	): Promise<void> {
+		const existing = await this.getSyncCursor(source, dataType);
+
+		if (existing) {
+			await this.syncCursors.update(existing.id!, {
+				...update,
+				updatedAt: Date.now(),
+			});
+		} else {
+			await this.syncCursors.add({
+				source,
+				dataType,
+				lastTimestamp: 0,
+				...update,
+				updatedAt: Date.now(),
+			});
+		}
+	}
+
+	/**
+	 * Reset sync cursors so the next sync refetches everything
+	 * Resets all sources if none is given
+	 */
+	async resetSyncCursors(source?: string): Promise<void> {
+		if (source) {
+			await this.syncCursors.where('source').equals(source).delete();
+		} else {
+			await this.syncCursors.clear();
+		}
+	}
+
+	/**
+	 * Record the start of a sync run
+	 */
+	async startSyncRun(trigger: SyncRun['trigger']): Promise<number> {
+		return (await this.syncRuns.add({
+			startedAt: Date.now(),
+			trigger,
+			status: 'running',
+			sources: [],
+		})) as number;
+	}
+
+	/**
+	 * Update a sync run
+	 */
+	async updateSyncRun(id: number, update: Partial<SyncRun>): Promise<void> {
+		await this.syncRuns.update(id, update);
+	}
+
+	/**
+	 * Get the most recent sync runs, newest first
+	 */
+	async getRecentSyncRuns(limit: number = 50): Promise<SyncRun[]> {
+		return await this.syncRuns.orderBy('startedAt').reverse().limit(limit).toArray();
+	}
+
+	/**
+	 * Delete all but the most recent sync runs
+	 */
+	async pruneSyncRuns(keep: number): Promise<void> {
+		const stale = await this.syncRuns
+			.orderBy('startedAt')
+			.reverse()
+			.offset(keep)
+			.primaryKeys();
+		await this.syncRuns.bulkDelete(stale);
+	}
+
 	/**
 	 * Cache data from external source
+	 * Unchanged content (same hash) is left untouched
 	 */
 	async cacheData(
 		source: string,
@@ -199,26 +367,69 @@ export class GenerousAIDatabase extends Dexie {
 		externalId: string,
 		data: any,
 		metadata?: any
-	): Promise<void> {
-		const existing = await this.cachedData
-			.where('[source+dataType+externalId]')
-			.equals([source, dataType, externalId])
-			.first();
-
-		const record: CachedData = {
-			source,
-			dataType,
-			externalId,
-			data,
-			lastUpdated: Date.now(),
-			metadata,
-		};
+	): Promise<CacheWriteResult> {
+		const [result] = await this.cacheDataBatch([{ source, dataType, externalId, data, metadata }]);
+		return result;
+	}
 
-		if (existing) {
-			await this.cachedData.update(existing.id!, record);
-		} else {
-			await this.cachedData.add(record);
+	/**
+	 * Cache many items in a single transaction
+	 * Existing records are looked up in one query and all writes go through one bulkPut
+	 */
+	async cacheDataBatch(items: CacheWrite[]): Promise<CacheWriteResult[]> {
+		if (items.length === 0) {
+			return [];
 		}
+
+		return await this.transaction('rw', this.cachedData, async () => {
+			// One index query finds every stored record in the batch
+			const existingRecords = await this.cachedData
+				.where('[source+dataType+externalId]')
+				.anyOf(items.map((item) => [item.source, item.dataType, item.externalId]))
+				.toArray();
+
+			const existingByKey = new Map<string, CachedData>();
+			for (const record of existingRecords) {
+				existingByKey.set(cacheKey(record.source, record.dataType, record.externalId), record);
+			}
+
+			const now = Date.now();
+			const writes = new Map<string, CachedData>();
+			const results: CacheWriteResult[] = [];
+
+			for (const item of items) {
+				const key = cacheKey(item.source, item.dataType, item.externalId);
+				// A repeated item in the same batch compares against its earlier write
+				const existing = writes.get(key) ?? existingByKey.get(key);
+				const contentHash = hashContent(item.data);
+
+				if (existing?.contentHash === contentHash) {
+					results.push('unchanged');
+					continue;
+				}
+
+				writes.set(key, {
+					id: existing?.id,
+					source: item.source,
+					dataType: item.dataType,
+					externalId: item.externalId,
+					data: item.data,
+					lastUpdated: now,
+					metadata: item.metadata,
+					contentHash,
+					changedAt: now,
+					timestamp: item.timestamp ?? now,
+				});
+				results.push(existing ? 'updated' : 'added');
+			}
+
+			// Records with an id are replaced, the rest are added
+			if (writes.size > 0) {
+				await this.cachedData.bulkPut(Array.from(writes.values()));
+			}
+
+			return results;
+		});
 	}
 
 	/**
@@ -362,5 +573,114 @@ export class GenerousAIDatabase extends Dexie {
 	}
 }
 
-// Export singleton instance
-export const db = new GenerousAIDatabase();
+/**
+ * Key identifying a cached item across writes
+ */
+function cacheKey(source: string, dataType: string, externalId: string): string {
+	return `${source}\u0000${dataType}\u0000${externalId}`;
+}
+
+/**
+ * IndexedDB name for a vault
+ */
+export function getDatabaseName(vaultId: string): string {
+	return `${LEGACY_DATABASE_NAME}-${vaultId}`;
+}
+
+/**
+ * Open the database for a vault, claiming the legacy shared database on first run
+ */
+export async function openVaultDatabase(vaultId: string): Promise<GenerousAIDatabase> {
+	const database = new GenerousAIDatabase(getDatabaseName(vaultId));
+	await database.open();
+
+	try {
+		await migrateLegacyDatabase(database);
+	} catch (error) {
+		// The legacy database is left in place so the next start can retry
+		console.error('Failed to migrate legacy database:', error);
+	}
+
+	return database;
+}
+
+/**
+ * Copy the legacy shared database into a vault's database, then delete it
+ * Whichever vault opens first after upgrading inherits the data, so it only happens once
+ */
+async function migrateLegacyDatabase(target: GenerousAIDatabase): Promise<void> {
+	if (!(await Dexie.exists(LEGACY_DATABASE_NAME))) {
+		return;
+	}
+
+	const legacy = new GenerousAIDatabase(LEGACY_DATABASE_NAME);
+	await legacy.open();
+
+	try {
+		console.log(`Migrating legacy database into ${target.name}`);
+
+		const tables = legacy.tables.filter((table) => table.name !== target.legacyMigration.name);
+		for (const table of tables) {
+			await copyLegacyTable(table, target);
+		}
+
+		// Only give up the legacy data once every table is recorded as copied
+		const states = await target.legacyMigration.bulkGet(tables.map((table) => table.name));
+		const unfinished = tables.filter((table, i) => !states[i]?.done);
+		if (unfinished.length > 0) {
+			throw new Error(`Legacy tables not copied: ${unfinished.map((table) => table.name).join(', ')}`);
+		}
+	} finally {
+		legacy.close();
+	}
+
+	await Dexie.delete(LEGACY_DATABASE_NAME);
+	console.log('Legacy database migrated');
+}
+
+/**
+ * Copy one legacy table, resuming after the last page an earlier attempt committed
+ */
+async function copyLegacyTable(table: Table, target: GenerousAIDatabase): Promise<void> {
+	const destination = target.table(table.name);
+	const state = await target.legacyMigration.get(table.name);
+
+	if (state?.done) {
+		return;
+	}
+
+	// Never overwrite data the vault already has
+	if (!state && (await destination.count()) > 0) {
+		console.log(`Skipping ${table.name} - ${target.name} already has data`);
+		await target.legacyMigration.put({ table: table.name, done: true });
+		return;
+	}
+
+	// Keep primary keys so relationships and messages still point at the right rows
+	let lastKey: number | undefined = state?.lastKey;
+	while (true) {
+		const rows = await table
+			.where(':id')
+			.above(lastKey ?? -Infinity)
+			.limit(MIGRATION_PAGE_SIZE)
+			.toArray();
+		if (rows.length === 0) {
+			break;
+		}
+
+		lastKey = rows[rows.length - 1].id;
+
+		// A page and the position after it commit together, so an interrupted copy resumes exactly here
+		await target.transaction('rw', destination, target.legacyMigration, async () => {
+			await destination.bulkPut(rows);
+			await target.legacyMigration.put({ table: table.name, lastKey, done: false });
+		});
+	}
+
+	const [copied, expected] = await Promise.all([destination.count(), table.count()]);
+	if (copied < expected) {
+		throw new Error(`Copied ${copied} of ${expected} ${table.name} rows`);
+	}
+
+	await target.legacyMigration.put({ table: table.name, lastKey, done: true });
+}
@@ -0,0 +1,134 @@
+/**
+ * Modal for reviewing what a source will import before anything is cached
+ */
+
+import { App, Modal, Notice, Setting } from 'obsidian';
+import GenerousAIPlugin from './main';
+import { DataSource, DataTypePreview, FetchedDataItem } from './sync/types';
+
+export class ImportReviewModal extends Modal {
+	plugin: GenerousAIPlugin;
+	private sources: DataSource[];
+	private onSaved?: () => void;
+	private excluded = new Map<DataSource, Set<string>>();
+
+	constructor(app: App, plugin: GenerousAIPlugin, sources: DataSource[], onSaved?: () => void) {
+		super(app);
+		this.plugin = plugin;
+		this.sources = sources;
+		this.onSaved = onSaved;
+	}
+
+	async onOpen(): Promise<void> {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl('h2', { text: 'Review Data Import' });
+		contentEl.createEl('p', {
+			text: 'Nothing has been imported yet. Turn off anything you don\'t want Generous AI to store - you can change this later in settings.',
+		});
+
+		const previews = new Map<DataSource, DataTypePreview[]>();
+
+		for (const source of this.sources) {
+			const sectionEl = contentEl.createDiv();
+			sectionEl.createEl('h3', { text: this.getSourceName(source) });
+			const statusEl = sectionEl.createEl('p', { text: 'Scanning...' });
+
+			try {
+				const sourcePreviews = await this.plugin.syncManager.previewSource(source);
+				previews.set(source, sourcePreviews);
+				statusEl.remove();
+				this.renderSource(sectionEl, source, sourcePreviews);
+			} catch (error) {
+				console.error(`Failed to preview ${source}:`, error);
+				const errorMessage = error instanceof Error ? error.message : String(error);
+				statusEl.setText(`Could not scan ${this.getSourceName(source)}: ${errorMessage}`);
+				statusEl.addClass('mod-warning');
+			}
+		}
+
+		if (previews.size === 0) {
+			return;
+		}
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button
+					.setButtonText('Import selected')
+					.setCta()
+					.onClick(async () => {
+						this.close();
+						await this.saveAndSync(Array.from(previews.keys()));
+					})
+			)
+			.addButton((button) => button.setButtonText('Not now').onClick(() => this.close()));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	/**
+	 * Render one toggle per data type, with counts and a few sample items
+	 */
+	private renderSource(sectionEl: HTMLElement, source: DataSource, previews: DataTypePreview[]): void {
+		if (previews.length === 0) {
+			sectionEl.createEl('p', { text: 'No data found.' });
+			return;
+		}
+
+		const excluded = new Set(this.plugin.syncManager.getExcludedDataTypes(source));
+		this.excluded.set(source, excluded);
+
+		for (const preview of previews) {
+			const label = this.plugin.dataSources.getDataTypeLabel(source, preview.dataType);
+			const count = `${preview.estimated ? 'about ' : ''}${preview.count.toLocaleString()}`;
+
+			const setting = new Setting(sectionEl)
+				.setName(`${label} (${count})`)
+				.addToggle((toggle) =>
+					toggle.setValue(!excluded.has(preview.dataType)).onChange((value) => {
+						if (value) {
+							excluded.delete(preview.dataType);
+						} else {
+							excluded.add(preview.dataType);
+						}
+					})
+				);
+
+			const sampleList = setting.descEl.createEl('ul');
+			for (const item of preview.samples) {
+				sampleList.createEl('li', { text: this.describeItem(item) });
+			}
+		}
+	}
+
+	/**
+	 * Save the choices, then sync the reviewed sources
+	 */
+	private async saveAndSync(sources: DataSource[]): Promise<void> {
+		for (const source of sources) {
+			const excluded = this.excluded.get(source) ?? new Set<string>();
+			await this.plugin.syncManager.saveImportReview(source, Array.from(excluded));
+		}
+
+		new Notice('Import choices saved');
+		this.onSaved?.();
+
+		await this.plugin.syncManager.syncSources(sources, 'manual');
+	}
+
+	/**
+	 * One-line summary of a sample item
+	 */
+	private describeItem(item: FetchedDataItem): string {
+		const data = item.data || {};
+		const title = data.subject || data.summary || data.name || data.trackName || data.payeeName || item.id;
+		const detail = data.from || (data.artists ? data.artists.join(', ') : '') || data.date || '';
+		return detail ? `${title} - ${detail}` : String(title);
+	}
+
+	private getSourceName(source: DataSource): string {
+		return this.plugin.dataSources.getDisplayName(source);
+	}
+}
@@ -3,18 +3,51 @@
  * A personal AI assistant that learns about you and gently guides you toward living well
  */
 
-import { Plugin, Notice, TFile, WorkspaceLeaf } from 'obsidian';
+import { Plugin, Notice, TFile, WorkspaceLeaf, FileSystemAdapter } from 'obsidian';
 import { GenerousAISettings, DEFAULT_SETTINGS, EncryptedData } from './types';
 import { GenerousAISettingTab } from './settings';
 import { encrypt, decrypt, generateSalt } from './crypto';
 import { GenerousAISidebarView, VIEW_TYPE_GENEROUS_AI } from './sidebar-view';
+import { SyncHistoryModal } from './sync-history-modal';
+import { ImportReviewModal } from './import-review-modal';
+import { BankCsvImportModal, chooseFile } from './bank-import-modal';
+import { BANK_SOURCE } from './sync/bank-csv';
+import { isOfx, parseOfxStatement } from './sync/bank-ofx';
+import { HEALTH_SOURCE, parseHealthExport } from './sync/apple-health';
 import { SyncManager } from './sync/sync-manager';
+import { SyncProgressCallback } from './sync/types';
+import { DataSourceDescriptor, DataSourceRegistry } from './sync/data-source-registry';
+import { BUILT_IN_DATA_SOURCES } from './sync/built-in-sources';
 import { WeaveManager } from './weave/weave-manager';
+import { GenerousAIDatabase, openVaultDatabase } from './database';
+import {
+	OAUTH_PROTOCOL_ACTION,
+	ResumedOAuthCallback,
+	handleOAuthProtocolCallback,
+	cancelPendingOAuthFlows,
+	setOAuthFlowStore,
+} from './sync/oauth-helper';
+import {
+	FetchTransport,
+	RecordReplayTransport,
+	RequestUrlTransport,
+	setHttpTransport,
+} from './sync/http-transport';
+
+/**
+ * The undocumented part of Obsidian's App read for the vault id
+ */
+interface AppWithId {
+	appId?: string;
+}
 
 export default class GenerousAIPlugin extends Plugin {
 	settings: GenerousAISettings;
 	private masterPassword: string | null = null;
 	private statusBarItem: HTMLElement | null = null;
+	private resumedOAuthCallback: ResumedOAuthCallback | null = null; // Waiting for the master password
+	db: GenerousAIDatabase;
+	dataSources = new DataSourceRegistry(); // Created up front so other plugins can register at any time
 	syncManager: SyncManager;
 	weaveManager: WeaveManager;
 
@@ -24,11 +57,37 @@ export default class GenerousAIPlugin extends Plugin {
 		// Load settings
 		await this.loadSettings();
 
+		// Choose how HTTP requests are sent before any service is created
+		this.configureHttpTransport();
+
+		// Keep obsidian:// OAuth flows in plugin data, so they survive a restart mid-flow
+		setOAuthFlowStore({
+			load: () => this.settings.pendingOAuthFlows,
+			save: async (flows) => {
+				this.settings.pendingOAuthFlows = flows;
+				await this.saveSettings();
+			},
+		});
+
+		// Open this vault's database (other vaults on the machine get their own)
+		this.db = await openVaultDatabase(this.getVaultId());
+
+		// Register the built-in data sources
+		for (const descriptor of BUILT_IN_DATA_SOURCES) {
+			this.dataSources.register(descriptor);
+		}
+
 		// Initialize sync manager
-		this.syncManager = new SyncManager(this);
+		this.syncManager = new SyncManager(this, this.db);
+
+		// Show live sync progress in the status bar
+		this.syncManager.onProgress((progress) => this.showSyncProgress(progress));
 
 		// Initialize weave manager
-		this.weaveManager = new WeaveManager(this);
+		this.weaveManager = new WeaveManager(this, this.db);
+
+		// Re-extract only items a sync actually added or changed (when auto-extraction is on)
+		this.syncManager.changeFeed.subscribe((changes) => this.weaveManager.processChanges(changes));
 
 		// Register sidebar view
 		this.registerView(
@@ -51,6 +110,20 @@ export default class GenerousAIPlugin extends Plugin {
 		// Register commands
 		this.registerCommands();
 
+		// Handle OAuth redirects back into Obsidian (mobile and sandboxed desktops)
+		this.registerObsidianProtocolHandler(OAUTH_PROTOCOL_ACTION, async (params) => {
+			try {
+				const resumed = await handleOAuthProtocolCallback(params);
+				if (resumed) {
+					await this.completeResumedOAuthFlow(resumed);
+				}
+			} catch (error) {
+				console.error('OAuth callback failed:', error);
+				const errorMessage = error instanceof Error ? error.message : String(error);
+				new Notice(`OAuth callback failed: ${errorMessage}`);
+			}
+		});
+
 		console.log('Generous AI plugin loaded');
 	}
 
@@ -65,10 +138,61 @@ export default class GenerousAIPlugin extends Plugin {
 			this.syncManager.cleanup();
 		}
 
+		// Drop changes still waiting for extraction
+		if (this.weaveManager) {
+			this.weaveManager.cleanup();
+		}
+
+		// Abandon any OAuth flows still waiting for a callback
+		cancelPendingOAuthFlows();
+		setOAuthFlowStore(null);
+
+		// Close the vault database
+		if (this.db) {
+			this.db.close();
+		}
+
 		// Clear master password from memory
 		this.clearMasterPassword();
 	}
 
+	/**
+	 * Add a data source, e.g. from another plugin:
+	 *
+	 *   const generous = app.plugins.getPlugin('generous-ai');
+	 *   this.register(generous.registerDataSource({ id: 'strava', ... }));
+	 *
+	 * Returns a function that removes the source again
+	 */
+	registerDataSource(descriptor: DataSourceDescriptor): () => void {
+		const unregister = this.dataSources.register(descriptor);
+
+		// Sources registered after the services started connect straight away
+		if (this.syncManager && this.masterPassword) {
+			this.syncManager.initializeSource(descriptor.id).catch((error) => {
+				console.error(`Failed to initialize ${descriptor.displayName}:`, error);
+			});
+		}
+
+		return () => {
+			unregister();
+			this.syncManager?.removeService(descriptor.id);
+		};
+	}
+
+	/**
+	 * Stable identifier for this vault
+	 * Obsidian's own per-vault app id, or the vault name
+	 */
+	getVaultId(): string {
+		const { appId } = this.app as AppWithId;
+		if (typeof appId === 'string' && appId.length > 0) {
+			return appId;
+		}
+
+		return this.app.vault.getName();
+	}
+
 	async loadSettings() {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
 	}
@@ -77,6 +201,28 @@ export default class GenerousAIPlugin extends Plugin {
 		await this.saveData(this.settings);
 	}
 
+	/**
+	 * Apply the HTTP transport setting
+	 */
+	configureHttpTransport() {
+		const mode = this.settings.httpTransport;
+
+		if (mode === 'fetch') {
+			setHttpTransport(new FetchTransport());
+		} else if ((mode === 'record' || mode === 'replay') && this.app.vault.adapter instanceof FileSystemAdapter) {
+			const fixturesDir = this.app.vault.adapter.getFullPath(this.settings.httpFixturesPath);
+			setHttpTransport(new RecordReplayTransport({
+				mode,
+				fixturesDir,
+				// Calendar time windows move with the clock
+				ignoredParams: ['timeMin', 'timeMax'],
+			}));
+			console.log(`HTTP ${mode} mode using fixtures in ${fixturesDir}`);
+		} else {
+			setHttpTransport(new RequestUrlTransport());
+		}
+	}
+
 	/**
 	 * Set master password for this session (in memory only)
 	 */
@@ -89,12 +235,31 @@ export default class GenerousAIPlugin extends Plugin {
 		// Initialize weave manager
 		await this.weaveManager.initialize();
 
-		// Start sync interval if configured
-		if (this.settings.syncIntervalMinutes > 0) {
-			this.syncManager.startSyncInterval();
+		// Start scheduled syncs (sources with no interval are skipped)
+		this.syncManager.startScheduler();
+
+		// Finish a connect flow whose callback arrived while locked
+		if (this.resumedOAuthCallback) {
+			const callback = this.resumedOAuthCallback;
+			this.resumedOAuthCallback = null;
+			await this.syncManager.completeResumedOAuthFlow(callback);
 		}
 	}
 
+	/**
+	 * Finish a connect flow started before Obsidian restarted
+	 * The client secret and token storage need the master password, so a locked plugin waits for it
+	 */
+	private async completeResumedOAuthFlow(callback: ResumedOAuthCallback): Promise<void> {
+		if (!this.masterPassword) {
+			this.resumedOAuthCallback = callback;
+			new Notice('Unlock Generous AI with your master password to finish connecting');
+			return;
+		}
+
+		await this.syncManager.completeResumedOAuthFlow(callback);
+	}
+
 	/**
 	 * Clear master password from memory
 	 */
@@ -179,6 +344,9 @@ export default class GenerousAIPlugin extends Plugin {
 
 		// Create initial dashboard file if it doesn't exist
 		await this.ensureDashboard();
+
+		// Create the exclusion rules note if it doesn't exist
+		await this.ensureFiltersNote();
 	}
 
 	/**
@@ -219,6 +387,48 @@ Welcome to your personal assistant!
 		}
 	}
 
+	/**
+	 * Create the exclusion rules note if it doesn't exist
+	 */
+	async ensureFiltersNote(): Promise<void> {
+		const filtersPath = this.syncManager.getFiltersPath();
+		if (this.app.vault.getAbstractFileByPath(filtersPath)) {
+			return;
+		}
+
+		const filtersContent = `# Sync Filters
+
+Items matching a rule below are never cached, and anything already cached that matches is
+removed (along with Weave facts that came only from it) on the next sync or when you run
+**Apply Exclusion Rules**.
+
+One rule per list item: \`- <source> <data type or *> <field>: <value>\`.
+Values are case-insensitive and \`*\` matches anything.
+
+| Field | Applies to |
+| --- | --- |
+| \`label\`, \`sender\`, \`domain\` | google email |
+| \`calendar\`, \`keyword\` | google calendar_event |
+| \`account\`, \`category\`, \`payee\` | ynab transaction |
+| \`context\`, \`artist\` | spotify tracks |
+| \`keyword\` | any item's title and text |
+
+Examples (remove the backticks to enable):
+
+\`- google email domain: newsletters.example.com\`
+\`- google email label: CATEGORY_PROMOTIONS\`
+\`- google calendar_event keyword: therapy\`
+\`- ynab transaction category: Medical\`
+\`- spotify recently_played context: spotify:playlist:*\`
+
+## Rules
+
+`;
+
+		await this.app.vault.create(filtersPath, filtersContent);
+		console.log('Created filters note');
+	}
+
 	/**
 	 * Register plugin commands
 	 */
@@ -264,6 +474,73 @@ Welcome to your personal assistant!
 			},
 		});
 
+		// Command: Full Resync
+		this.addCommand({
+			id: 'full-resync',
+			name: 'Full Resync (Refetch All Data)',
+			callback: async () => {
+				await this.syncDataSources(true);
+			},
+		});
+
+		// Command: Cancel Sync
+		this.addCommand({
+			id: 'cancel-sync',
+			name: 'Cancel Sync',
+			callback: () => {
+				if (this.syncManager.cancelSync()) {
+					new Notice('Cancelling sync...');
+				} else {
+					new Notice('No sync running');
+				}
+			},
+		});
+
+		// Command: Show Sync History
+		this.addCommand({
+			id: 'show-sync-history',
+			name: 'Show Sync History',
+			callback: () => {
+				new SyncHistoryModal(this.app, this).open();
+			},
+		});
+
+		// Command: Apply Exclusion Rules
+		this.addCommand({
+			id: 'apply-exclusion-rules',
+			name: 'Apply Exclusion Rules',
+			callback: async () => {
+				await this.applyExclusionRules();
+			},
+		});
+
+		// Command: Import Bank Statement
+		this.addCommand({
+			id: 'import-bank-statement',
+			name: 'Import Bank Statement (CSV, OFX, QFX)',
+			callback: async () => {
+				await this.importBankStatement();
+			},
+		});
+
+		// Command: Import Apple Health Export
+		this.addCommand({
+			id: 'import-apple-health',
+			name: 'Import Apple Health Export',
+			callback: async () => {
+				await this.importAppleHealth();
+			},
+		});
+
+		// Command: Run Retention Purge
+		this.addCommand({
+			id: 'run-retention-purge',
+			name: 'Run Retention Purge Now',
+			callback: async () => {
+				await this.runRetentionPurge();
+			},
+		});
+
 		// Command: Build The Weave
 		this.addCommand({
 			id: 'build-weave',
@@ -303,18 +580,175 @@ Welcome to your personal assistant!
 		this.statusBarItem.setText('Generous AI: Ready');
 	}
 
+	/**
+	 * Show a sync progress event in the status bar
+	 */
+	private showSyncProgress(progress: Parameters<SyncProgressCallback>[0]): void {
+		if (!this.statusBarItem || progress.status !== 'syncing') {
+			return;
+		}
+
+		const name = progress.source.charAt(0).toUpperCase() + progress.source.slice(1);
+		let text = `Generous AI: Syncing ${name}`;
+
+		if (progress.itemsProcessed !== undefined) {
+			text += progress.totalItems
+				? ` (${progress.itemsProcessed}/${progress.totalItems})`
+				: ` (${progress.itemsProcessed})`;
+		}
+
+		this.statusBarItem.setText(text);
+	}
+
+	/**
+	 * Reload exclusion rules and purge newly excluded data
+	 */
+	async applyExclusionRules(): Promise<void> {
+		try {
+			const purged = await this.syncManager.applyExclusionRules();
+			if (purged === 0) {
+				new Notice('Exclusion rules applied - nothing to remove');
+			}
+		} catch (error) {
+			console.error('Failed to apply exclusion rules:', error);
+			new Notice('Failed to apply exclusion rules - check console for details');
+		}
+	}
+
+	/**
+	 * Pick a bank statement and import it
+	 * OFX/QFX statements are imported directly; CSV exports first get their columns mapped
+	 */
+	async importBankStatement(): Promise<void> {
+		if (!this.syncManager.isServiceConnected(BANK_SOURCE)) {
+			new Notice('Unlock Generous AI with your master password first');
+			return;
+		}
+
+		const file = await chooseFile('.csv,.ofx,.qfx,text/csv');
+		if (!file) {
+			return;
+		}
+
+		let text: string;
+		try {
+			text = await file.text();
+		} catch (error) {
+			console.error('Failed to read bank statement:', error);
+			new Notice(`Could not read ${file.name}`);
+			return;
+		}
+
+		if (!isOfx(text)) {
+			new BankCsvImportModal(this.app, this, file.name, text).open();
+			return;
+		}
+
+		const { items, errors } = parseOfxStatement(text);
+		if (errors.length > 0) {
+			console.error(`Problems reading ${file.name}:`, errors);
+		}
+		if (items.length === 0) {
+			new Notice(`No transactions found in ${file.name}`);
+			return;
+		}
+
+		try {
+			const result = await this.syncManager.importItems(BANK_SOURCE, items);
+			if (result?.success) {
+				const skipped = result.itemsUnchanged > 0 ? ` (${result.itemsUnchanged} already imported)` : '';
+				new Notice(`Imported ${result.itemsAdded} new items from ${file.name}${skipped}`);
+			}
+		} catch (error) {
+			console.error('Bank statement import failed:', error);
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			new Notice(`Import failed: ${errorMessage}`);
+		}
+	}
+
+	/**
+	 * Pick an Apple Health export.xml and import its daily summaries
+	 * The file is streamed, so exports of any size can be imported
+	 */
+	async importAppleHealth(): Promise<void> {
+		if (!this.syncManager.isServiceConnected(HEALTH_SOURCE)) {
+			new Notice('Unlock Generous AI with your master password first');
+			return;
+		}
+
+		const file = await chooseFile('.xml,text/xml');
+		if (!file) {
+			return;
+		}
+
+		new Notice(`Reading ${file.name}...`);
+
+		try {
+			const items = await parseHealthExport(file, (fraction) => {
+				this.statusBarItem?.setText(`Generous AI: Reading Apple Health export (${Math.round(fraction * 100)}%)`);
+			});
+			this.updateStatusBar();
+
+			if (items.length === 0) {
+				new Notice(`No steps, sleep, workouts, heart rate or mindful minutes found in ${file.name}`);
+				return;
+			}
+
+			const result = await this.syncManager.importItems(HEALTH_SOURCE, items);
+			if (result?.success) {
+				new Notice(
+					`Imported ${items.length} days of health data (${result.itemsAdded} new, ${result.itemsUpdated} updated)`
+				);
+			}
+		} catch (error) {
+			this.updateStatusBar();
+			console.error('Apple Health import failed:', error);
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			new Notice(`Import failed: ${errorMessage}`);
+		}
+	}
+
+	/**
+	 * Apply retention policies now instead of waiting for the background purge
+	 */
+	async runRetentionPurge(): Promise<void> {
+		if (this.syncManager.isSyncing()) {
+			new Notice('Sync in progress - try again when it finishes');
+			return;
+		}
+
+		try {
+			const report = await this.syncManager.retention.run();
+			new Notice(`Retention purge: ${report.deleted} items deleted, ${report.stripped} stripped`);
+		} catch (error) {
+			console.error('Retention purge failed:', error);
+			new Notice('Retention purge failed - check console for details');
+		}
+	}
+
 	/**
 	 * Sync all connected data sources
+	 * A full resync discards incremental cursors first
 	 */
-	async syncDataSources(): Promise<void> {
+	async syncDataSources(fullResync: boolean = false): Promise<void> {
 		console.log('Starting data source sync...');
 
 		if (this.statusBarItem) {
 			this.statusBarItem.setText('Generous AI: Syncing...');
 		}
 
+		// Newly connected sources are skipped until the user reviews what they import
+		const awaitingReview = await this.syncManager.getSourcesAwaitingReview();
+		if (awaitingReview.length > 0) {
+			new ImportReviewModal(this.app, this, awaitingReview).open();
+		}
+
 		try {
-			await this.syncManager.syncAll();
+			if (fullResync) {
+				await this.syncManager.fullResync();
+			} else {
+				await this.syncManager.syncAll();
+			}
 		} catch (error) {
 			console.error('Sync failed:', error);
 			new Notice('Sync failed - check console for details');
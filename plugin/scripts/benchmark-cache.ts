@@ -0,0 +1,126 @@
+/**
+ * Cache write benchmark
+ * Compares per-item cache writes with batched writes against an in-memory IndexedDB
+ *
+ * Usage: npm run benchmark:cache -- [items]
+ */
+
+import 'fake-indexeddb/auto';
+import { CachedData, CacheWrite, GenerousAIDatabase } from '../database';
+import { hashContent } from '../sync/content-hash';
+
+const PAGE_SIZE = 100;
+
+/**
+ * Build fake Gmail-sized items
+ */
+function makeItems(count: number, revision: number): CacheWrite[] {
+	const items: CacheWrite[] = [];
+	for (let i = 0; i < count; i++) {
+		items.push({
+			source: 'google',
+			dataType: 'email',
+			externalId: `message-${i}`,
+			data: {
+				id: `message-${i}`,
+				threadId: `thread-${Math.floor(i / 4)}`,
+				subject: `Subject ${i} (revision ${revision})`,
+				from: 'someone@example.com',
+				to: 'me@example.com',
+				date: new Date(2024, 0, 1 + (i % 365)).toISOString(),
+				snippet: 'Lorem ipsum dolor sit amet, consectetur adipiscing elit. '.repeat(4),
+				labelIds: ['INBOX', 'UNREAD'],
+			},
+		});
+	}
+	return items;
+}
+
+/**
+ * The pre-batching write path: one lookup and one put per item, each in its own transaction
+ */
+async function cacheOneByOne(database: GenerousAIDatabase, items: CacheWrite[]): Promise<void> {
+	for (const item of items) {
+		const existing = await database.cachedData
+			.where({ source: item.source, dataType: item.dataType, externalId: item.externalId })
+			.first();
+		const contentHash = hashContent(item.data);
+
+		if (existing?.contentHash === contentHash) {
+			continue;
+		}
+
+		const record: CachedData = {
+			id: existing?.id,
+			source: item.source,
+			dataType: item.dataType,
+			externalId: item.externalId,
+			data: item.data,
+			lastUpdated: Date.now(),
+			metadata: item.metadata,
+			contentHash,
+			changedAt: Date.now(),
+		};
+		await database.cachedData.put(record);
+	}
+}
+
+/**
+ * The batched write path, one transaction per page as the sync services do
+ */
+async function cacheByPage(database: GenerousAIDatabase, items: CacheWrite[]): Promise<void> {
+	for (let start = 0; start < items.length; start += PAGE_SIZE) {
+		await database.cacheDataBatch(items.slice(start, start + PAGE_SIZE));
+	}
+}
+
+async function time(label: string, run: () => Promise<void>): Promise<number> {
+	const start = performance.now();
+	await run();
+	const elapsed = performance.now() - start;
+	console.log(`  ${label.padEnd(24)} ${elapsed.toFixed(0).padStart(7)} ms`);
+	return elapsed;
+}
+
+async function benchmark(
+	name: string,
+	count: number,
+	write: (database: GenerousAIDatabase, items: CacheWrite[]) => Promise<void>
+): Promise<number[]> {
+	const database = new GenerousAIDatabase('GenerousAI-benchmark');
+	await database.cachedData.clear();
+
+	console.log(`${name}:`);
+	const timings = [
+		await time('insert', () => write(database, makeItems(count, 1))),
+		await time('rewrite (unchanged)', () => write(database, makeItems(count, 1))),
+		await time('rewrite (updated)', () => write(database, makeItems(count, 2))),
+	];
+
+	const stored = await database.cachedData.count();
+	if (stored !== count) {
+		throw new Error(`${name}: expected ${count} cached items, found ${stored}`);
+	}
+
+	database.close();
+	return timings;
+}
+
+async function main(): Promise<void> {
+	const count = Number(process.argv[2]) || 2000;
+	console.log(`Caching ${count} items (pages of ${PAGE_SIZE})\n`);
+
+	const oneByOne = await benchmark('Per-item writes', count, cacheOneByOne);
+	console.log();
+	const batched = await benchmark('Batched writes', count, cacheByPage);
+
+	console.log('\nSpeedup:');
+	['insert', 'rewrite (unchanged)', 'rewrite (updated)'].forEach((label, i) => {
+		console.log(`  ${label.padEnd(24)} ${(oneByOne[i] / batched[i]).toFixed(1).padStart(7)}x`);
+	});
+}
+
+main().catch((error) => {
+	console.error(error);
+	process.exit(1);
+});
@@ -0,0 +1,46 @@
+/**
+ * Test runner
+ * Bundles each tests/*.test.ts for Node (with `obsidian` swapped for a stub) and runs them with node:test
+ *
+ * Usage: npm test -- [name filter]
+ */
+
+import esbuild from "esbuild";
+import { spawnSync } from "child_process";
+import { readdirSync, rmSync } from "fs";
+import path from "path";
+import process from "process";
+
+const testsDir = "tests";
+const outDir = ".test-build";
+const filter = process.argv[2] || "";
+
+const entryPoints = readdirSync(testsDir)
+	.filter((file) => file.endsWith(".test.ts") && file.includes(filter))
+	.map((file) => path.join(testsDir, file));
+
+if (entryPoints.length === 0) {
+	console.error(`No tests match "${filter}"`);
+	process.exit(1);
+}
+
+rmSync(outDir, { recursive: true, force: true });
+
+await esbuild.build({
+	entryPoints,
+	bundle: true,
+	platform: "node",
+	format: "cjs",
+	target: "node18",
+	outdir: outDir,
+	alias: { obsidian: `./${testsDir}/obsidian-stub.ts` },
+	logLevel: "warning",
+});
+
+const outputs = entryPoints.map((entry) =>
+	path.join(outDir, path.basename(entry).replace(/\.ts$/, ".js"))
+);
+const result = spawnSync(process.execPath, ["--test", ...outputs], { stdio: "inherit" });
+
+rmSync(outDir, { recursive: true, force: true });
+process.exit(result.status ?? 1);
@@ -5,6 +5,12 @@
 import { App, PluginSettingTab, Setting, Notice } from 'obsidian';
 import GenerousAIPlugin from './main';
 import { generateSalt, hashPassword, verifyPassword } from './crypto';
+import { DataSource, OAuthClientCredentials, OAuthConfig, OAuthDataSource, SyncErrorType } from './sync/types';
+import { GOOGLE_OAUTH_CONFIG } from './sync/google-service';
+import { SPOTIFY_OAUTH_CONFIG } from './sync/spotify-service';
+import { ImportReviewModal } from './import-review-modal';
+import { RAW_CONTENT_FIELDS, getRetentionKey } from './sync/retention';
+import { HEALTH_SOURCE } from './sync/apple-health';
 
 export class GenerousAISettingTab extends PluginSettingTab {
 	plugin: GenerousAIPlugin;
@@ -34,6 +40,7 @@ export class GenerousAISettingTab extends PluginSettingTab {
 		if (this.plugin.settings.masterPasswordHash && this.masterPasswordUnlocked) {
 			this.displayAIBackendSection(containerEl);
 			this.displayDataIntegrationSection(containerEl);
+			this.displayOAuthClientSection(containerEl);
 			this.displayVirtueGuidanceSection(containerEl);
 			this.displayVaultStructureSection(containerEl);
 			this.displaySyncSection(containerEl);
@@ -229,6 +236,29 @@ export class GenerousAISettingTab extends PluginSettingTab {
 						}
 					})
 			);
+
+		new Setting(containerEl)
+			.setName('Extract from synced data')
+			.setDesc('Send new and changed items to the AI after each sync, instead of only when you build The Weave')
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.autoExtractChanges).onChange(async (value) => {
+					this.plugin.settings.autoExtractChanges = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName('Extractions per sync')
+			.setDesc('Most items (or email threads) extracted after a sync - the rest wait for the next sync')
+			.addText((text) =>
+				text.setValue(String(this.plugin.settings.autoExtractLimit)).onChange(async (value) => {
+					const limit = parseInt(value);
+					if (!isNaN(limit) && limit >= 0) {
+						this.plugin.settings.autoExtractLimit = limit;
+						await this.plugin.saveSettings();
+					}
+				})
+			);
 	}
 
 	private displayDataIntegrationSection(containerEl: HTMLElement): void {
@@ -239,25 +269,31 @@ export class GenerousAISettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName('Google Account')
-			.setDesc('Connect Gmail, Calendar, and Drive')
+			.setDesc(this.getOAuthDescription('google', 'Connect Gmail, Calendar, and Drive'))
 			.addButton((button) =>
 				button
-					.setButtonText(this.plugin.settings.googleTokens ? 'Reconnect' : 'Connect')
+					.setButtonText(this.getOAuthButtonText('google', !!this.plugin.settings.googleTokens))
 					.onClick(async () => {
-						new Notice('Google OAuth integration coming soon');
-						// TODO: Implement OAuth flow
+						const connected = await this.plugin.syncManager.connectOAuthService('google');
+						if (connected) {
+							this.display();
+							this.openImportReview('google');
+						}
 					})
 			);
 
 		new Setting(containerEl)
 			.setName('Spotify')
-			.setDesc('Sync your listening history')
+			.setDesc(this.getOAuthDescription('spotify', 'Sync your listening history'))
 			.addButton((button) =>
 				button
-					.setButtonText(this.plugin.settings.spotifyTokens ? 'Reconnect' : 'Connect')
+					.setButtonText(this.getOAuthButtonText('spotify', !!this.plugin.settings.spotifyTokens))
 					.onClick(async () => {
-						new Notice('Spotify integration coming soon');
-						// TODO: Implement OAuth flow
+						const connected = await this.plugin.syncManager.connectOAuthService('spotify');
+						if (connected) {
+							this.display();
+							this.openImportReview('spotify');
+						}
 					})
 			);
 
@@ -272,6 +308,149 @@ export class GenerousAISettingTab extends PluginSettingTab {
 						// TODO: Implement token entry
 					})
 			);
+
+		new Setting(containerEl)
+			.setName('Vault notes')
+			.setDesc(
+				`Folders whose notes feed The Weave, one per line (e.g. Journal, Daily Notes, Meetings). Use / for the whole vault. ${this.plugin.settings.systemFolderPath} and ${this.plugin.settings.userFolderPath} are always skipped.`
+			)
+			.addTextArea((text) =>
+				text
+					.setPlaceholder('Journal\nDaily Notes')
+					.setValue(this.plugin.settings.vaultNoteFolders.join('\n'))
+					.onChange(async (value) => {
+						this.plugin.settings.vaultNoteFolders = value
+							.split('\n')
+							.map((folder) => folder.trim())
+							.filter((folder) => folder);
+						await this.plugin.saveSettings();
+						this.plugin.syncManager.onNoteFoldersChanged();
+					})
+			);
+	}
+
+	/**
+	 * Review what a source imports, refreshing settings once choices are saved
+	 */
+	private openImportReview(source: DataSource): void {
+		new ImportReviewModal(this.app, this.plugin, [source], () => this.display()).open();
+	}
+
+	private displayOAuthClientSection(containerEl: HTMLElement): void {
+		containerEl.createEl('h2', { text: 'OAuth Clients' });
+		containerEl.createEl('p', {
+			text: 'Register your own OAuth app with each provider and enter its credentials here. Leave the URLs empty to use the provider defaults.',
+		});
+
+		this.displayOAuthClientSettings(containerEl, 'google', 'Google', GOOGLE_OAUTH_CONFIG);
+		this.displayOAuthClientSettings(containerEl, 'spotify', 'Spotify', SPOTIFY_OAUTH_CONFIG);
+	}
+
+	private displayOAuthClientSettings(
+		containerEl: HTMLElement,
+		source: OAuthDataSource,
+		displayName: string,
+		defaults: Partial<OAuthConfig>
+	): void {
+		const settings = this.plugin.settings;
+		const hasClientId = !!(source === 'google' ? settings.googleClientId : settings.spotifyClientId);
+		const hasClientSecret = !!(source === 'google' ? settings.googleClientSecret : settings.spotifyClientSecret);
+
+		// Undefined means "leave the stored value unchanged"
+		const credentials: OAuthClientCredentials = {
+			clientId: undefined,
+			clientSecret: undefined,
+			authUrl: source === 'google' ? settings.googleAuthUrl : settings.spotifyAuthUrl,
+			tokenUrl: source === 'google' ? settings.googleTokenUrl : settings.spotifyTokenUrl,
+		};
+
+		containerEl.createEl('h3', { text: displayName });
+
+		new Setting(containerEl)
+			.setName('Client ID')
+			.setDesc(`OAuth client ID for ${displayName} (encrypted)`)
+			.addText((text) =>
+				text
+					.setPlaceholder('Client ID')
+					.setValue(hasClientId ? '••••••••' : '')
+					.onChange((value) => {
+						credentials.clientId = value !== '••••••••' ? value : undefined;
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Client secret')
+			.setDesc('Optional for PKCE-only clients (encrypted)')
+			.addText((text) =>
+				text
+					.setPlaceholder('Client secret')
+					.setValue(hasClientSecret ? '••••••••' : '')
+					.onChange((value) => {
+						credentials.clientSecret = value !== '••••••••' ? value : undefined;
+					})
+			)
+			.then((setting) => {
+				const inputEl = setting.controlEl.querySelector('input');
+				if (inputEl) inputEl.type = 'password';
+			});
+
+		new Setting(containerEl)
+			.setName('Authorization URL')
+			.setDesc('Optional override, e.g. a local mock server')
+			.addText((text) =>
+				text
+					.setPlaceholder(defaults.authUrl || '')
+					.setValue(credentials.authUrl)
+					.onChange((value) => {
+						credentials.authUrl = value;
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Token URL')
+			.setDesc('Optional override, e.g. a local mock server')
+			.addText((text) =>
+				text
+					.setPlaceholder(defaults.tokenUrl || '')
+					.setValue(credentials.tokenUrl)
+					.onChange((value) => {
+						credentials.tokenUrl = value;
+					})
+			);
+
+		new Setting(containerEl).addButton((button) =>
+			button
+				.setButtonText(`Save ${displayName} client`)
+				.onClick(async () => {
+					const saved = await this.plugin.syncManager.saveOAuthClientCredentials(
+						source,
+						credentials
+					);
+					if (saved) {
+						this.display();
+					}
+				})
+		);
+	}
+
+	/**
+	 * Button label for an OAuth source
+	 */
+	private getOAuthButtonText(source: OAuthDataSource, hasTokens: boolean): string {
+		if (this.plugin.syncManager.tokenStore.isReauthorizationRequired(source)) {
+			return 'Reauthorize';
+		}
+		return hasTokens ? 'Reconnect' : 'Connect';
+	}
+
+	/**
+	 * Description for an OAuth source, flagging revoked access
+	 */
+	private getOAuthDescription(source: OAuthDataSource, description: string): string {
+		if (this.plugin.syncManager.tokenStore.isReauthorizationRequired(source)) {
+			return `${description} - access was revoked, please reauthorize`;
+		}
+		return description;
 	}
 
 	private displayVirtueGuidanceSection(containerEl: HTMLElement): void {
@@ -364,7 +543,7 @@ export class GenerousAISettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName('Sync interval')
-			.setDesc('How often to sync with data sources (minutes)')
+			.setDesc('How often to sync data sources without their own interval (minutes)')
 			.addText((text) =>
 				text
 					.setValue(String(this.plugin.settings.syncIntervalMinutes))
@@ -377,6 +556,259 @@ export class GenerousAISettingTab extends PluginSettingTab {
 					})
 			);
 
+		containerEl.createEl('h3', { text: 'Source schedules' });
+		containerEl.createEl('p', {
+			text: 'Minutes between syncs for each source. Leave empty to use the sync interval above, or 0 to sync only manually. Runs missed while Obsidian was closed or asleep happen on the next start.',
+			cls: 'setting-item-description',
+		});
+
+		const sources = this.plugin.dataSources.getAll();
+		const syncedSources = sources.filter((descriptor) => !descriptor.importOnly);
+
+		for (const { id: source, displayName } of syncedSources) {
+			const interval = this.plugin.settings.sourceSyncIntervals[source];
+
+			new Setting(containerEl)
+				.setName(displayName)
+				.addText((text) =>
+					text
+						.setPlaceholder(String(this.plugin.settings.syncIntervalMinutes))
+						.setValue(interval !== undefined ? String(interval) : '')
+						.onChange(async (value) => {
+							if (value.trim() === '') {
+								await this.plugin.syncManager.setSyncInterval(source, undefined);
+								return;
+							}
+
+							const minutes = parseInt(value);
+							if (!isNaN(minutes) && minutes >= 0) {
+								await this.plugin.syncManager.setSyncInterval(source, minutes);
+							}
+						})
+				);
+		}
+
+		new Setting(containerEl)
+			.setName('Parallel syncs')
+			.setDesc('How many data sources sync at the same time')
+			.addText((text) =>
+				text
+					.setValue(String(this.plugin.settings.syncConcurrency))
+					.onChange(async (value) => {
+						const concurrency = parseInt(value);
+						if (!isNaN(concurrency) && concurrency > 0) {
+							this.plugin.settings.syncConcurrency = concurrency;
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+
+		containerEl.createEl('h3', { text: 'Backfill limits' });
+		containerEl.createEl('p', {
+			text: 'How far back the first sync of each source reaches. Use 0 for no limit. Interrupted backfills resume on the next sync.',
+			cls: 'setting-item-description',
+		});
+
+		for (const { id: source, displayName } of syncedSources) {
+			// Read-only - updates build a new limit so the defaults are never modified
+			const limit = this.plugin.syncManager.getBackfillLimit(source);
+
+			new Setting(containerEl)
+				.setName(displayName)
+				.setDesc('Maximum age (days) and maximum items per data type')
+				.addText((text) =>
+					text
+						.setPlaceholder('Days')
+						.setValue(String(limit.maxAgeDays))
+						.onChange(async (value) => {
+							const days = parseInt(value);
+							if (!isNaN(days) && days >= 0) {
+								await this.plugin.syncManager.setBackfillLimit(source, {
+									...this.plugin.syncManager.getBackfillLimit(source),
+									maxAgeDays: days,
+								});
+							}
+						})
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder('Items')
+						.setValue(String(limit.maxItems))
+						.onChange(async (value) => {
+							const items = parseInt(value);
+							if (!isNaN(items) && items >= 0) {
+								await this.plugin.syncManager.setBackfillLimit(source, {
+									...this.plugin.syncManager.getBackfillLimit(source),
+									maxItems: items,
+								});
+							}
+						})
+				);
+		}
+
+		containerEl.createEl('h3', { text: 'Imported data' });
+		containerEl.createEl('p', {
+			text: 'Choose which kinds of data each source imports. Nothing from a newly connected source is stored until you review it.',
+			cls: 'setting-item-description',
+		});
+
+		for (const { id: source, displayName } of syncedSources) {
+			const excluded = this.plugin.syncManager.getExcludedDataTypes(source);
+			const reviewed = this.plugin.settings.reviewedSources.includes(source);
+
+			new Setting(containerEl)
+				.setName(displayName)
+				.setDesc(
+					excluded.length > 0
+						? `Excluded: ${excluded.join(', ')}`
+						: reviewed ? 'Importing everything' : 'Not reviewed yet'
+				)
+				.addButton((button) =>
+					button
+						.setButtonText('Review')
+						.setDisabled(!this.plugin.syncManager.isServiceConnected(source))
+						.onClick(() => this.openImportReview(source))
+				);
+		}
+
+		containerEl.createEl('h3', { text: 'Bank statements' });
+		containerEl.createEl('p', {
+			text: 'Import CSV, OFX or QFX statements from banks and credit cards. Column mappings saved during a CSV import are reused for files with the same columns, and transactions already imported are skipped.',
+			cls: 'setting-item-description',
+		});
+
+		new Setting(containerEl).setName('Import a statement').addButton((button) =>
+			button.setButtonText('Choose file').onClick(async () => {
+				await this.plugin.importBankStatement();
+			})
+		);
+
+		for (const preset of this.plugin.settings.bankCsvPresets) {
+			new Setting(containerEl)
+				.setName(preset.name)
+				.setDesc(`Saved mapping: date "${preset.columns.date}", amount "${preset.columns.amount}"`)
+				.addButton((button) =>
+					button.setButtonText('Delete').onClick(async () => {
+						this.plugin.settings.bankCsvPresets = this.plugin.settings.bankCsvPresets.filter(
+							(existing) => existing !== preset
+						);
+						await this.plugin.saveSettings();
+						this.display();
+					})
+				);
+		}
+
+		containerEl.createEl('h3', { text: 'Apple Health' });
+		containerEl.createEl('p', {
+			text: 'Import export.xml from an Apple Health export (Health app → profile → Export All Health Data, then unzip). Steps, sleep, workouts, heart rate and mindful minutes are summarized per day; importing a newer export updates the days it covers.',
+			cls: 'setting-item-description',
+		});
+
+		const healthSetting = new Setting(containerEl).setName('Import an export').addButton((button) =>
+			button.setButtonText('Choose file').onClick(async () => {
+				await this.plugin.importAppleHealth();
+				this.display();
+			})
+		);
+		this.displayHealthImportStatus(healthSetting).catch((error) => {
+			console.error('Failed to load Apple Health import status:', error);
+			healthSetting.descEl.createEl('span', {
+				text: `Could not load import status: ${error instanceof Error ? error.message : String(error)}`,
+				cls: 'mod-warning',
+			});
+		});
+
+		containerEl.createEl('h3', { text: 'Exclusion rules' });
+		containerEl.createEl('p', {
+			text: `Items matching these rules are never cached, and already-cached matches are removed on the next sync. One rule per line, e.g. "- google email domain: example.com". Rules in ${this.plugin.syncManager.getFiltersPath()} apply too - see that note for the fields you can use.`,
+			cls: 'setting-item-description',
+		});
+
+		new Setting(containerEl)
+			.setName('Rules')
+			.addTextArea((text) =>
+				text
+					.setPlaceholder('- google email label: CATEGORY_PROMOTIONS')
+					.setValue(this.plugin.settings.exclusionRules)
+					.onChange(async (value) => {
+						this.plugin.settings.exclusionRules = value;
+						await this.plugin.saveSettings();
+					})
+			)
+			.addButton((button) =>
+				button.setButtonText('Apply now').onClick(async () => {
+					await this.plugin.applyExclusionRules();
+				})
+			);
+
+		containerEl.createEl('h3', { text: 'Data retention' });
+		containerEl.createEl('p', {
+			text: 'How long cached items are kept, in days (0 keeps them forever). Expired items are deleted, or have their raw content such as email bodies stripped while their metadata stays. Runs in the background every few hours.',
+			cls: 'setting-item-description',
+		});
+
+		const retentionDataTypes = sources.flatMap(({ id: source, displayName, dataTypes }) =>
+			dataTypes.map(({ id: dataType, label }) => ({ source, dataType, label: `${displayName} - ${label}` }))
+		);
+
+		for (const { source, dataType, label } of retentionDataTypes) {
+			const key = getRetentionKey(source, dataType);
+			const policy = this.plugin.settings.retentionPolicies[key] ?? { maxAgeDays: 0, action: 'delete' };
+			const savePolicy = async () => {
+				// Copied rather than mutated - the loaded object may still be DEFAULT_SETTINGS'
+				const policies = { ...this.plugin.settings.retentionPolicies };
+				if (policy.maxAgeDays > 0) {
+					policies[key] = { ...policy };
+				} else {
+					delete policies[key];
+				}
+				this.plugin.settings.retentionPolicies = policies;
+				await this.plugin.saveSettings();
+			};
+
+			const setting = new Setting(containerEl).setName(label).addText((text) =>
+				text
+					.setPlaceholder('Days')
+					.setValue(String(policy.maxAgeDays))
+					.onChange(async (value) => {
+						const days = parseInt(value);
+						if (!isNaN(days) && days >= 0) {
+							policy.maxAgeDays = days;
+							await savePolicy();
+						}
+					})
+			);
+
+			// Stripping only applies where there is raw content to remove
+			if (RAW_CONTENT_FIELDS[dataType]) {
+				setting.addDropdown((dropdown) =>
+					dropdown
+						.addOption('delete', 'Delete')
+						.addOption('strip', 'Strip content')
+						.setValue(policy.action)
+						.onChange(async (value) => {
+							policy.action = value as 'delete' | 'strip';
+							await savePolicy();
+						})
+				);
+			}
+		}
+
+		new Setting(containerEl)
+			.setName('Keep Weave facts after deletion')
+			.setDesc('Keep people, places and relationships learned from deleted items, noting that their source data is gone')
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.keepWeaveFactsAfterRetention).onChange(async (value) => {
+					this.plugin.settings.keepWeaveFactsAfterRetention = value;
+					await this.plugin.saveSettings();
+				})
+			)
+			.addButton((button) =>
+				button.setButtonText('Purge now').onClick(async () => {
+					await this.plugin.runRetentionPurge();
+				})
+			);
+
 		new Setting(containerEl)
 			.setName('Show status bar')
 			.setDesc('Display sync status in the status bar')
@@ -397,6 +829,48 @@ export class GenerousAISettingTab extends PluginSettingTab {
 				cls: 'setting-item-description',
 			});
 		}
+
+		const errorsEl = containerEl.createDiv();
+		this.displaySyncErrors(errorsEl).catch((error) => {
+			console.error('Failed to load sync errors:', error);
+			errorsEl.createEl('p', {
+				text: `Could not load sync status: ${error instanceof Error ? error.message : String(error)}`,
+				cls: 'setting-item-description mod-warning',
+			});
+		});
+	}
+
+	private async displaySyncErrors(containerEl: HTMLElement): Promise<void> {
+		const labels: Record<SyncErrorType, string> = {
+			auth: 'Authentication failed - reconnect this source',
+			rate_limit: 'Rate limited - will retry later',
+			network: 'Network unavailable',
+			http: 'Request failed',
+			unknown: 'Sync failed',
+		};
+
+		const status = await this.plugin.syncManager.getSyncStatus();
+
+		for (const [source, state] of status) {
+			if (state.status !== 'error') continue;
+
+			const label = labels[state.errorType || 'unknown'];
+			containerEl.createEl('p', {
+				text: `${source}: ${label}${state.errorMessage ? ` (${state.errorMessage})` : ''}`,
+				cls: 'setting-item-description mod-warning',
+			});
+		}
+	}
+
+	private async displayHealthImportStatus(setting: Setting): Promise<void> {
+		const { healthKit } = await this.plugin.syncManager.getDataSourceStatus();
+		if (!healthKit) {
+			setting.setDesc('No export imported yet');
+			return;
+		}
+
+		const state = (await this.plugin.syncManager.getSyncStatus()).get(HEALTH_SOURCE);
+		setting.setDesc(`Last imported: ${new Date(state?.lastSync ?? 0).toLocaleString()}`);
 	}
 
 	private arrayBufferToBase64(buffer: Uint8Array): string {
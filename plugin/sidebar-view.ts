@@ -9,6 +9,8 @@ export const VIEW_TYPE_GENEROUS_AI = 'generous-ai-sidebar';
 
 export class GenerousAISidebarView extends ItemView {
 	plugin: GenerousAIPlugin;
+	private syncProgressEl: HTMLElement | null = null;
+	private unsubscribeProgress: (() => void) | null = null;
 
 	constructor(leaf: WorkspaceLeaf, plugin: GenerousAIPlugin) {
 		super(leaf);
@@ -44,6 +46,18 @@ export class GenerousAISidebarView extends ItemView {
 		const statusSection = container.createDiv({ cls: 'generous-ai-status' });
 		this.renderStatus(statusSection);
 
+		// Live sync progress
+		this.unsubscribeProgress = this.plugin.syncManager.onProgress((progress) => {
+			if (!this.syncProgressEl) return;
+
+			const counts = progress.itemsProcessed !== undefined
+				? progress.totalItems
+					? ` (${progress.itemsProcessed}/${progress.totalItems})`
+					: ` (${progress.itemsProcessed})`
+				: '';
+			this.syncProgressEl.setText(`Sync: ${progress.message}${counts}`);
+		});
+
 		// Chat container (placeholder for now)
 		const chatContainer = container.createDiv({ cls: 'generous-ai-chat' });
 		chatContainer.createEl('p', {
@@ -73,6 +87,9 @@ export class GenerousAISidebarView extends ItemView {
 
 	async onClose(): Promise<void> {
 		// Cleanup
+		this.unsubscribeProgress?.();
+		this.unsubscribeProgress = null;
+		this.syncProgressEl = null;
 	}
 
 	/**
@@ -103,6 +120,11 @@ export class GenerousAISidebarView extends ItemView {
 			: 'Never';
 		statusList.createEl('li', { text: `Last Sync: ${lastSync}` });
 
+		// Sync progress (updated live while a sync runs)
+		this.syncProgressEl = statusList.createEl('li', {
+			text: this.plugin.syncManager.isSyncing() ? 'Sync: Running...' : 'Sync: Idle',
+		});
+
 		// Guidance status
 		const guidanceStatus = this.plugin.settings.enableVirtueGuidance
 			? `✓ Enabled (Tier ${this.plugin.settings.virtueGuidanceTier})`
@@ -0,0 +1,88 @@
+/**
+ * Modal listing recent sync runs
+ */
+
+import { App, Modal, TFile } from 'obsidian';
+import GenerousAIPlugin from './main';
+import { SyncRun } from './database';
+import { getFailingSince } from './sync/sync-history';
+
+export class SyncHistoryModal extends Modal {
+	plugin: GenerousAIPlugin;
+
+	constructor(app: App, plugin: GenerousAIPlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	async onOpen(): Promise<void> {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl('h2', { text: 'Sync History' });
+
+		const runs = await this.plugin.syncManager.history.getRecentRuns();
+
+		if (runs.length === 0) {
+			contentEl.createEl('p', { text: 'No syncs recorded yet.' });
+			return;
+		}
+
+		// Sources currently failing, and since when
+		const failing = getFailingSince(runs);
+		for (const [source, entry] of failing) {
+			contentEl.createEl('p', {
+				text: `${source} failing since ${new Date(entry.startedAt).toLocaleString()}: ${entry.errors[0] || 'Unknown error'}`,
+				cls: 'mod-warning',
+			});
+		}
+
+		const list = contentEl.createEl('ul');
+		for (const run of runs) {
+			this.renderRun(list.createEl('li'), run);
+		}
+
+		const openButton = contentEl.createEl('button', { text: 'Open sync log note' });
+		openButton.addEventListener('click', async () => {
+			await this.openSyncLog();
+		});
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	/**
+	 * Render one run with its per-source results
+	 */
+	private renderRun(itemEl: HTMLElement, run: SyncRun): void {
+		const started = new Date(run.startedAt).toLocaleString();
+		itemEl.createEl('strong', { text: `${started} - ${run.status}` });
+		itemEl.createSpan({ text: ` (${run.trigger})` });
+
+		const sourceList = itemEl.createEl('ul');
+		for (const entry of run.sources) {
+			const text = entry.success
+				? `${entry.source}: ${entry.itemsProcessed} items`
+				: `${entry.source}: ${entry.errors.join('; ') || 'failed'}`;
+			sourceList.createEl('li', { text, cls: entry.success ? '' : 'mod-warning' });
+		}
+	}
+
+	/**
+	 * Open (regenerating if needed) the sync log note
+	 */
+	private async openSyncLog(): Promise<void> {
+		const path = `${this.plugin.settings.systemFolderPath}/sync-log.md`;
+
+		let file = this.app.vault.getAbstractFileByPath(path);
+		if (!file) {
+			await this.plugin.syncManager.history.writeSyncLog();
+			file = this.app.vault.getAbstractFileByPath(path);
+		}
+
+		if (file instanceof TFile) {
+			await this.app.workspace.getLeaf().openFile(file);
+			this.close();
+		}
+	}
+}
@@ -0,0 +1,278 @@
+/**
+ * Apple Health import
+ * Streams an Apple Health export.xml and aggregates steps, sleep, workouts, heart rate and
+ * mindful minutes into one `health` record per day
+ */
+
+import { FetchedDataItem } from './types';
+
+/**
+ * Data source that imported health data is cached under
+ */
+export const HEALTH_SOURCE = 'health';
+
+/**
+ * Bytes read per chunk - exports run to gigabytes, so the file is never read whole
+ */
+const READ_CHUNK_SIZE = 4 * 1024 * 1024;
+
+const STEP_COUNT = 'HKQuantityTypeIdentifierStepCount';
+const HEART_RATE = 'HKQuantityTypeIdentifierHeartRate';
+const RESTING_HEART_RATE = 'HKQuantityTypeIdentifierRestingHeartRate';
+const SLEEP_ANALYSIS = 'HKCategoryTypeIdentifierSleepAnalysis';
+const MINDFUL_SESSION = 'HKCategoryTypeIdentifierMindfulSession';
+
+const IMPORTED_RECORD_TYPES = new Set([STEP_COUNT, HEART_RATE, RESTING_HEART_RATE, SLEEP_ANALYSIS, MINDFUL_SESSION]);
+
+/**
+ * Workout summary within a day
+ */
+interface HealthWorkout {
+	activity: string;
+	start: string; // Local time as recorded, e.g. "2024-01-05 07:30"
+	minutes: number;
+	distance: number | null;
+	distanceUnit: string | null;
+	energy: number | null;
+	energyUnit: string | null;
+}
+
+/**
+ * Running totals for one day
+ * Sums are kept per device, since an iPhone and a Watch both record the same steps and sleep
+ */
+interface DayTotals {
+	steps: Map<string, number>;
+	asleepMinutes: Map<string, number>;
+	inBedMinutes: Map<string, number>;
+	mindfulMinutes: Map<string, number>;
+	heartRate: { sum: number; count: number; min: number; max: number } | null;
+	restingHeartRates: number[];
+	workouts: Map<string, HealthWorkout>;
+}
+
+/**
+ * Check if a file starts like an Apple Health export
+ */
+export function isHealthExport(text: string): boolean {
+	return /<HealthData\b/.test(text);
+}
+
+/**
+ * Read an export.xml in chunks and produce one `health` item per day
+ * Item ids are the day, so importing a newer export updates the days it covers
+ */
+export async function parseHealthExport(
+	file: Blob,
+	onProgress?: (fraction: number) => void
+): Promise<FetchedDataItem[]> {
+	const days = new Map<string, DayTotals>();
+	const decoder = new TextDecoder();
+	const elementPattern = /<(Record|Workout)\s([^>]*)>/g;
+	let buffer = '';
+
+	for (let offset = 0; offset < file.size; offset += READ_CHUNK_SIZE) {
+		const chunk = await file.slice(offset, offset + READ_CHUNK_SIZE).arrayBuffer();
+		buffer += decoder.decode(chunk, { stream: offset + READ_CHUNK_SIZE < file.size });
+
+		if (offset === 0 && !isHealthExport(buffer)) {
+			throw new Error('Not an Apple Health export - choose the export.xml from the exported archive');
+		}
+
+		// Scan complete tags only; a tag cut off at the chunk boundary waits for the next chunk
+		const end = buffer.lastIndexOf('>') + 1;
+		const complete = buffer.slice(0, end);
+		buffer = buffer.slice(end);
+
+		let match: RegExpExecArray | null;
+		elementPattern.lastIndex = 0;
+		while ((match = elementPattern.exec(complete)) !== null) {
+			const [, element, attributeText] = match;
+			if (element === 'Record') {
+				const type = attributeText.match(/\btype="([^"]*)"/)?.[1];
+				if (type && IMPORTED_RECORD_TYPES.has(type)) {
+					addRecord(days, type, parseAttributes(attributeText));
+				}
+			} else {
+				addWorkout(days, parseAttributes(attributeText));
+			}
+		}
+
+		onProgress?.(Math.min(1, (offset + READ_CHUNK_SIZE) / file.size));
+	}
+
+	return Array.from(days.entries())
+		.sort(([a], [b]) => a.localeCompare(b))
+		.map(([date, totals]) => toItem(date, totals));
+}
+
+function addRecord(days: Map<string, DayTotals>, type: string, attributes: Record<string, string>): void {
+	const start = parseHealthDate(attributes.startDate);
+	const end = parseHealthDate(attributes.endDate);
+	if (!start || !end) {
+		return;
+	}
+
+	const device = attributes.sourceName ?? '';
+	const value = parseFloat(attributes.value);
+
+	switch (type) {
+		case STEP_COUNT:
+			if (!isNaN(value)) addTo(getDay(days, start.date).steps, device, value);
+			break;
+		case HEART_RATE: {
+			if (isNaN(value)) break;
+			const day = getDay(days, start.date);
+			const heartRate = day.heartRate ?? { sum: 0, count: 0, min: value, max: value };
+			heartRate.sum += value;
+			heartRate.count++;
+			heartRate.min = Math.min(heartRate.min, value);
+			heartRate.max = Math.max(heartRate.max, value);
+			day.heartRate = heartRate;
+			break;
+		}
+		case RESTING_HEART_RATE:
+			if (!isNaN(value)) getDay(days, start.date).restingHeartRates.push(value);
+			break;
+		case SLEEP_ANALYSIS: {
+			// A night's sleep belongs to the day it ends
+			const minutes = (end.timestamp - start.timestamp) / 60000;
+			const day = getDay(days, end.date);
+			if (attributes.value === 'HKCategoryValueSleepAnalysisInBed') {
+				addTo(day.inBedMinutes, device, minutes);
+			} else if (attributes.value?.startsWith('HKCategoryValueSleepAnalysisAsleep')) {
+				addTo(day.asleepMinutes, device, minutes);
+			}
+			break;
+		}
+		case MINDFUL_SESSION:
+			addTo(getDay(days, start.date).mindfulMinutes, device, (end.timestamp - start.timestamp) / 60000);
+			break;
+	}
+}
+
+function addWorkout(days: Map<string, DayTotals>, attributes: Record<string, string>): void {
+	const start = parseHealthDate(attributes.startDate);
+	const end = parseHealthDate(attributes.endDate);
+	if (!start || !end) {
+		return;
+	}
+
+	const activity = formatActivity(attributes.workoutActivityType ?? '');
+	const duration = parseFloat(attributes.duration);
+	const minutes = isNaN(duration)
+		? (end.timestamp - start.timestamp) / 60000
+		: attributes.durationUnit === 'hr'
+			? duration * 60
+			: attributes.durationUnit === 's'
+				? duration / 60
+				: duration;
+	const distance = parseFloat(attributes.totalDistance);
+	const energy = parseFloat(attributes.totalEnergyBurned);
+
+	// The same workout recorded by two devices is kept once
+	getDay(days, start.date).workouts.set(`${activity}|${attributes.startDate}`, {
+		activity,
+		start: attributes.startDate.slice(0, 16),
+		minutes: Math.round(minutes),
+		distance: isNaN(distance) ? null : Math.round(distance * 100) / 100,
+		distanceUnit: isNaN(distance) ? null : (attributes.totalDistanceUnit ?? null),
+		energy: isNaN(energy) ? null : Math.round(energy),
+		energyUnit: isNaN(energy) ? null : (attributes.totalEnergyBurnedUnit ?? null),
+	});
+}
+
+function toItem(date: string, totals: DayTotals): FetchedDataItem {
+	const id = `health-${date}`;
+	const heartRate = totals.heartRate;
+	const resting = totals.restingHeartRates;
+
+	return {
+		id,
+		type: 'health',
+		source: HEALTH_SOURCE,
+		data: {
+			id,
+			date,
+			steps: largest(totals.steps),
+			sleepMinutes: largest(totals.asleepMinutes),
+			inBedMinutes: largest(totals.inBedMinutes),
+			mindfulMinutes: largest(totals.mindfulMinutes),
+			heartRate: heartRate
+				? {
+						average: Math.round(heartRate.sum / heartRate.count),
+						min: Math.round(heartRate.min),
+						max: Math.round(heartRate.max),
+						resting:
+							resting.length > 0
+								? Math.round(resting.reduce((sum, value) => sum + value, 0) / resting.length)
+								: null,
+					}
+				: null,
+			workouts: Array.from(totals.workouts.values()).sort((a, b) => a.start.localeCompare(b.start)),
+		},
+		timestamp: new Date(date).getTime(),
+	};
+}
+
+function getDay(days: Map<string, DayTotals>, date: string): DayTotals {
+	let day = days.get(date);
+	if (!day) {
+		day = {
+			steps: new Map(),
+			asleepMinutes: new Map(),
+			inBedMinutes: new Map(),
+			mindfulMinutes: new Map(),
+			heartRate: null,
+			restingHeartRates: [],
+			workouts: new Map(),
+		};
+		days.set(date, day);
+	}
+	return day;
+}
+
+function addTo(totals: Map<string, number>, device: string, value: number): void {
+	totals.set(device, (totals.get(device) ?? 0) + value);
+}
+
+/**
+ * The best-covered device's total, rather than a double-counted sum
+ */
+function largest(totals: Map<string, number>): number | null {
+	return totals.size > 0 ? Math.round(Math.max(...totals.values())) : null;
+}
+
+function parseAttributes(text: string): Record<string, string> {
+	const attributes: Record<string, string> = {};
+	for (const [, name, value] of text.matchAll(/(\w+)="([^"]*)"/g)) {
+		attributes[name] = value;
+	}
+	return attributes;
+}
+
+/**
+ * Parse an export date like "2024-01-05 07:30:00 -0800"
+ * The date is the local day as recorded; the timestamp applies the offset
+ */
+function parseHealthDate(raw: string | undefined): { date: string; timestamp: number } | null {
+	const match = raw?.match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/);
+	if (!match) {
+		return null;
+	}
+
+	const timestamp = Date.parse(`${match[1]}T${match[2]}${match[3]}:${match[4]}`);
+	return isNaN(timestamp) ? null : { date: match[1], timestamp };
+}
+
+/**
+ * "HKWorkoutActivityTypeTraditionalStrengthTraining" -> "Traditional Strength Training"
+ */
+function formatActivity(type: string): string {
+	return (
+		type
+			.replace(/^HKWorkoutActivityType/, '')
+			.replace(/([a-z])([A-Z])/g, '$1 $2')
+			.trim() || 'Workout'
+	);
+}
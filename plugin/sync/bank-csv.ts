@@ -0,0 +1,370 @@
+/**
+ * Bank CSV import
+ * Parses bank and credit card CSV exports into the same transaction shape YNAB syncs produce
+ */
+
+import { BankCsvColumns, BankCsvPreset } from '../types';
+import { FetchedDataItem } from './types';
+import { hashContent } from './content-hash';
+
+/**
+ * Data source that imported bank statements are cached under
+ */
+export const BANK_SOURCE = 'bank';
+
+/**
+ * Account name used when neither a column nor the mapping names one
+ */
+const DEFAULT_ACCOUNT_NAME = 'Imported account';
+
+/**
+ * Header names each field is usually found under, most specific first
+ */
+const COLUMN_KEYWORDS: Record<keyof BankCsvColumns, string[]> = {
+	date: ['transaction date', 'posted date', 'posting date', 'date'],
+	amount: ['amount', 'transaction amount', 'value'],
+	payee: ['payee', 'merchant', 'description', 'name', 'details'],
+	memo: ['memo', 'notes', 'reference'],
+	category: ['category'],
+	account: ['account name', 'account', 'card'],
+};
+
+/**
+ * Header row and data rows of a CSV file
+ */
+export interface ParsedCsv {
+	headers: string[];
+	rows: string[][];
+}
+
+/**
+ * How to read a file's rows - a preset without its name
+ */
+export type BankCsvMapping = Omit<BankCsvPreset, 'name' | 'headerSignature'>;
+
+/**
+ * Parse CSV text, detecting the delimiter
+ * Preamble lines some banks put above the header (account number, date range) are skipped
+ */
+export function parseCsv(text: string): ParsedCsv {
+	text = text.replace(/^\uFEFF/, '');
+	const delimiter = detectDelimiter(text);
+
+	const records: string[][] = [];
+	let record: string[] = [];
+	let field = '';
+	let quoted = false;
+
+	for (let i = 0; i < text.length; i++) {
+		const ch = text[i];
+
+		if (quoted) {
+			if (ch === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (ch === '"') {
+				quoted = false;
+			} else {
+				field += ch;
+			}
+		} else if (ch === '"') {
+			quoted = true;
+		} else if (ch === delimiter) {
+			record.push(field);
+			field = '';
+		} else if (ch === '\n' || ch === '\r') {
+			if (ch === '\r' && text[i + 1] === '\n') i++;
+			record.push(field);
+			records.push(record);
+			record = [];
+			field = '';
+		} else {
+			field += ch;
+		}
+	}
+
+	if (field.length > 0 || record.length > 0) {
+		record.push(field);
+		records.push(record);
+	}
+
+	const nonEmpty = records
+		.map((r) => r.map((value) => value.trim()))
+		.filter((r) => r.some((value) => value.length > 0));
+
+	// The header is the first row as wide as most of the file
+	const width = mostCommon(nonEmpty.map((r) => r.length));
+	const headerIndex = nonEmpty.findIndex((r) => r.length === width);
+	if (headerIndex === -1) {
+		return { headers: [], rows: [] };
+	}
+
+	return {
+		headers: nonEmpty[headerIndex],
+		rows: nonEmpty.slice(headerIndex + 1).filter((r) => r.length >= 2),
+	};
+}
+
+/**
+ * Normalized header row, so the same bank's exports match the same preset
+ */
+export function getHeaderSignature(headers: string[]): string {
+	return headers.map((header) => header.trim().toLowerCase()).join('|');
+}
+
+/**
+ * Saved preset for a file's header row, if any
+ */
+export function findPreset(presets: BankCsvPreset[], headers: string[]): BankCsvPreset | undefined {
+	const signature = getHeaderSignature(headers);
+	return presets.find((preset) => preset.headerSignature === signature);
+}
+
+/**
+ * Best guess at which columns hold each field, for files without a preset
+ */
+export function guessColumns(headers: string[]): BankCsvColumns {
+	const used = new Set<string>();
+	const find = (field: keyof BankCsvColumns): string | undefined => {
+		const candidates = headers.filter((header) => !used.has(header));
+		for (const keyword of COLUMN_KEYWORDS[field]) {
+			const match =
+				candidates.find((header) => header.toLowerCase() === keyword) ??
+				candidates.find((header) => header.toLowerCase().includes(keyword));
+			if (match) {
+				used.add(match);
+				return match;
+			}
+		}
+		return undefined;
+	};
+
+	// Required fields first, so optional ones can't take their columns
+	const date = find('date') ?? headers[0] ?? '';
+	const amount = find('amount') ?? headers[1] ?? '';
+	return {
+		date,
+		amount,
+		payee: find('payee'),
+		memo: find('memo'),
+		category: find('category'),
+		account: find('account'),
+	};
+}
+
+/**
+ * Turn CSV rows into transaction items
+ * Item ids hash the transaction's fields, so importing an overlapping export again
+ * finds the rows already cached instead of duplicating them
+ */
+export function normalizeTransactions(
+	csv: ParsedCsv,
+	mapping: BankCsvMapping
+): { items: FetchedDataItem[]; errors: string[] } {
+	const items: FetchedDataItem[] = [];
+	const errors: string[] = [];
+	const occurrences = new Map<string, number>();
+
+	const column = (name?: string) => (name ? csv.headers.indexOf(name) : -1);
+	const columns = {
+		date: column(mapping.columns.date),
+		amount: column(mapping.columns.amount),
+		payee: column(mapping.columns.payee),
+		memo: column(mapping.columns.memo),
+		category: column(mapping.columns.category),
+		account: column(mapping.columns.account),
+	};
+
+	if (columns.date === -1 || columns.amount === -1) {
+		return { items, errors: ['Choose the date and amount columns'] };
+	}
+
+	const dateFormat =
+		mapping.dateFormat === 'auto'
+			? detectDateFormat(csv.rows.map((row) => row[columns.date] ?? ''))
+			: mapping.dateFormat;
+
+	csv.rows.forEach((row, index) => {
+		const cell = (i: number) => (i === -1 ? '' : (row[i] ?? '').trim());
+		const rowNumber = index + 1;
+
+		const date = parseDate(cell(columns.date), dateFormat);
+		if (!date) {
+			errors.push(`Row ${rowNumber}: unrecognized date "${cell(columns.date)}"`);
+			return;
+		}
+
+		let amount = parseAmount(cell(columns.amount));
+		if (isNaN(amount)) {
+			errors.push(`Row ${rowNumber}: unrecognized amount "${cell(columns.amount)}"`);
+			return;
+		}
+		if (mapping.invertAmounts) {
+			amount = -amount;
+		}
+		amount = Math.round(amount * 100) / 100;
+
+		const payee = cell(columns.payee);
+		const memo = cell(columns.memo);
+		const accountName = cell(columns.account) || mapping.accountName.trim() || DEFAULT_ACCOUNT_NAME;
+
+		// Identical rows (two coffees on one day) are told apart by their order in the file
+		const key = hashContent({ accountName, date, amount, payee, memo });
+		const occurrence = (occurrences.get(key) ?? 0) + 1;
+		occurrences.set(key, occurrence);
+		const id = `csv-${key}${occurrence > 1 ? `-${occurrence}` : ''}`;
+
+		items.push({
+			id,
+			type: 'transaction',
+			source: BANK_SOURCE,
+			data: {
+				id,
+				date,
+				amount,
+				memo: memo || null,
+				cleared: 'cleared',
+				approved: true,
+				payeeName: payee || null,
+				categoryName: cell(columns.category) || null,
+				accountName,
+			},
+			timestamp: new Date(date).getTime(),
+		});
+	});
+
+	return { items, errors };
+}
+
+/**
+ * Parse an amount like "-1,234.56", "$12.00", "(12.00)", "12,50" or "12.00 DR"
+ */
+export function parseAmount(raw: string): number {
+	let text = raw.trim();
+	let negative = false;
+
+	if (/^\(.*\)$/.test(text)) {
+		negative = true;
+		text = text.slice(1, -1);
+	}
+	if (/\s*DR$/i.test(text)) {
+		negative = !negative;
+		text = text.replace(/\s*DR$/i, '');
+	}
+	text = text.replace(/\s*CR$/i, '');
+	if (text.endsWith('-')) {
+		negative = !negative;
+		text = text.slice(0, -1);
+	}
+
+	// Drop currency symbols and spaces
+	text = text.replace(/[^\d,.+-]/g, '');
+	if (text.startsWith('-')) {
+		negative = !negative;
+		text = text.slice(1);
+	} else if (text.startsWith('+')) {
+		text = text.slice(1);
+	}
+
+	const lastComma = text.lastIndexOf(',');
+	const lastDot = text.lastIndexOf('.');
+	if (lastComma > lastDot) {
+		// "1.234,56" and "12,50" use a decimal comma; "1,234" is a thousands separator
+		const decimals = text.length - lastComma - 1;
+		text =
+			decimals === 3 && lastDot === -1
+				? text.replace(/,/g, '')
+				: text.replace(/\./g, '').replace(',', '.');
+	} else {
+		text = text.replace(/,/g, '');
+	}
+
+	if (!/^\d*\.?\d+$/.test(text)) {
+		return NaN;
+	}
+
+	const value = parseFloat(text);
+	return negative ? -value : value;
+}
+
+/**
+ * Parse a date to YYYY-MM-DD
+ */
+export function parseDate(
+	raw: string,
+	format: Exclude<BankCsvPreset['dateFormat'], 'auto'>
+): string | null {
+	const text = raw.trim();
+
+	const isoMatch = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+	if (isoMatch) {
+		return toIsoDate(Number(isoMatch[1]), Number(isoMatch[2]), Number(isoMatch[3]));
+	}
+
+	const numericMatch = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})\b/);
+	if (numericMatch) {
+		const [first, second] = [Number(numericMatch[1]), Number(numericMatch[2])];
+		const year = numericMatch[3].length === 2 ? 2000 + Number(numericMatch[3]) : Number(numericMatch[3]);
+		return format === 'DD/MM/YYYY' ? toIsoDate(year, second, first) : toIsoDate(year, first, second);
+	}
+
+	// Written-out dates, e.g. "Jan 5, 2024"
+	if (/[a-z]/i.test(text)) {
+		const parsed = new Date(text);
+		if (!isNaN(parsed.getTime())) {
+			return toIsoDate(parsed.getFullYear(), parsed.getMonth() + 1, parsed.getDate());
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Day-first or month-first, from whichever dates in the column are unambiguous
+ * Month-first unless some date has a day over 12 in the first position
+ */
+function detectDateFormat(values: string[]): Exclude<BankCsvPreset['dateFormat'], 'auto'> {
+	for (const value of values) {
+		const match = value.trim().match(/^(\d{1,2})[-/.](\d{1,2})[-/.]\d{2,4}/);
+		if (!match) continue;
+		if (Number(match[1]) > 12) return 'DD/MM/YYYY';
+		if (Number(match[2]) > 12) return 'MM/DD/YYYY';
+	}
+	return values.some((value) => /^\d{4}[-/.]/.test(value.trim())) ? 'YYYY-MM-DD' : 'MM/DD/YYYY';
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+	const date = new Date(Date.UTC(year, month - 1, day));
+	if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+		return null;
+	}
+	return date.toISOString().slice(0, 10);
+}
+
+/**
+ * The delimiter appearing most often in the first lines, outside quotes
+ */
+function detectDelimiter(text: string): string {
+	const sample = text.split(/\r?\n/).slice(0, 10).join('\n').replace(/"[^"]*"/g, '');
+	const counts = [',', ';', '\t'].map((delimiter) => ({
+		delimiter,
+		count: sample.split(delimiter).length - 1,
+	}));
+	counts.sort((a, b) => b.count - a.count);
+	return counts[0].count > 0 ? counts[0].delimiter : ',';
+}
+
+function mostCommon(values: number[]): number {
+	const counts = new Map<number, number>();
+	let best = 0;
+	let bestCount = 0;
+	for (const value of values) {
+		const count = (counts.get(value) ?? 0) + 1;
+		counts.set(value, count);
+		if (count > bestCount || (count === bestCount && value > best)) {
+			best = value;
+			bestCount = count;
+		}
+	}
+	return best;
+}
@@ -0,0 +1,238 @@
+/**
+ * OFX/QFX statement import
+ * Parses OFX 1.x (SGML) and 2.x (XML) bank and credit card statements into cached
+ * transactions and account balance snapshots
+ */
+
+import { FetchedDataItem } from './types';
+import { hashContent } from './content-hash';
+import { BANK_SOURCE } from './bank-csv';
+
+/**
+ * Element of an OFX document - aggregates have children, leaves have text
+ */
+interface OfxNode {
+	name: string;
+	text: string;
+	children: OfxNode[];
+}
+
+/**
+ * Check if text looks like an OFX document
+ */
+export function isOfx(text: string): boolean {
+	return /<OFX>/i.test(text.slice(0, 4096));
+}
+
+/**
+ * Parse an OFX or QFX statement into transactions and balance snapshots
+ * Transaction ids come from the bank's FITID, so re-importing a statement skips what is cached
+ */
+export function parseOfxStatement(text: string): { items: FetchedDataItem[]; errors: string[] } {
+	const root = parseOfxTree(text);
+	const items: FetchedDataItem[] = [];
+	const errors: string[] = [];
+
+	const institution = findText(root, ['SIGNONMSGSRSV1', 'SONRS', 'FI', 'ORG']);
+
+	const statements = [...findAll(root, 'STMTRS'), ...findAll(root, 'CCSTMTRS')];
+	if (statements.length === 0) {
+		return { items, errors: ['No bank or credit card statement found'] };
+	}
+
+	for (const statement of statements) {
+		const accountFrom = child(statement, 'BANKACCTFROM') ?? child(statement, 'CCACCTFROM');
+		const accountId = findText(accountFrom, ['ACCTID']);
+		if (!accountId) {
+			errors.push('Statement without an account id');
+			continue;
+		}
+
+		// Ids and names never hold the full account number
+		const bankId = findText(accountFrom, ['BANKID']);
+		const accountKey = hashContent({ bankId, accountId });
+		const accountType = findText(accountFrom, ['ACCTTYPE']) || (statement.name === 'CCSTMTRS' ? 'CREDITCARD' : '');
+		const accountName = [institution, formatAccountType(accountType), `…${accountId.slice(-4)}`]
+			.filter((part) => part)
+			.join(' ');
+		const currency = findText(statement, ['CURDEF']);
+
+		for (const transaction of findAll(child(statement, 'BANKTRANLIST'), 'STMTTRN')) {
+			const fitId = findText(transaction, ['FITID']);
+			const date = parseOfxDate(findText(transaction, ['DTPOSTED']));
+			const amount = parseFloat(findText(transaction, ['TRNAMT']).replace(',', '.'));
+
+			if (!fitId || !date || isNaN(amount)) {
+				errors.push(`Skipped transaction ${fitId || '(no FITID)'} in ${accountName}: missing date or amount`);
+				continue;
+			}
+
+			const id = `ofx-${accountKey}-${fitId}`;
+			const payeeName = findText(transaction, ['NAME']) || findText(transaction, ['PAYEE', 'NAME']);
+			const memo = findText(transaction, ['MEMO']);
+
+			items.push({
+				id,
+				type: 'transaction',
+				source: BANK_SOURCE,
+				data: {
+					id,
+					date: date.date,
+					amount: Math.round(amount * 100) / 100,
+					memo: memo || null,
+					cleared: 'cleared',
+					approved: true,
+					payeeName: payeeName || null,
+					categoryName: null,
+					accountName,
+					transactionType: findText(transaction, ['TRNTYPE']) || null,
+					checkNumber: findText(transaction, ['CHECKNUM']) || null,
+				},
+				timestamp: date.timestamp,
+			});
+		}
+
+		// One balance snapshot per account per day
+		const ledger = child(statement, 'LEDGERBAL');
+		const balance = parseFloat(findText(ledger, ['BALAMT']));
+		const asOf = parseOfxDate(findText(ledger, ['DTASOF']));
+		if (!isNaN(balance) && asOf) {
+			const available = parseFloat(findText(child(statement, 'AVAILBAL'), ['BALAMT']));
+			const id = `ofx-${accountKey}-balance-${asOf.date}`;
+
+			items.push({
+				id,
+				type: 'account_balance',
+				source: BANK_SOURCE,
+				data: {
+					id,
+					accountName,
+					balance,
+					availableBalance: isNaN(available) ? null : available,
+					currency: currency || null,
+					asOf: asOf.date,
+				},
+				timestamp: asOf.timestamp,
+			});
+		}
+	}
+
+	return { items, errors };
+}
+
+/**
+ * Build the element tree
+ * SGML leaves have no closing tag, so an element with text is treated as a leaf and any
+ * closing tag without a matching open aggregate (an XML leaf's) is ignored
+ */
+function parseOfxTree(text: string): OfxNode {
+	const root: OfxNode = { name: '', text: '', children: [] };
+	const stack: OfxNode[] = [root];
+
+	const start = text.search(/<OFX>/i);
+	const body = start === -1 ? text : text.slice(start);
+	const tagPattern = /<(\/?)([A-Za-z0-9_.]+)\s*(\/?)>([^<]*)/g;
+
+	// Only names that are ever closed can be aggregates - an empty SGML leaf must not swallow its siblings
+	const closedNames = new Set(Array.from(body.matchAll(/<\/([A-Za-z0-9_.]+)>/g), (m) => m[1].toUpperCase()));
+
+	let match: RegExpExecArray | null;
+	while ((match = tagPattern.exec(body)) !== null) {
+		const [, closing, rawName, selfClosing, rawText] = match;
+		const name = rawName.toUpperCase();
+
+		if (closing) {
+			const index = stack.map((node) => node.name).lastIndexOf(name);
+			if (index > 0) {
+				stack.length = index;
+			}
+			continue;
+		}
+
+		const node: OfxNode = { name, text: decodeEntities(rawText.trim()), children: [] };
+		stack[stack.length - 1].children.push(node);
+
+		if (!node.text && !selfClosing && closedNames.has(name)) {
+			stack.push(node);
+		}
+	}
+
+	return root;
+}
+
+function child(node: OfxNode | undefined, name: string): OfxNode | undefined {
+	return node?.children.find((c) => c.name === name);
+}
+
+/**
+ * Every descendant with a name, in document order
+ */
+function findAll(node: OfxNode | undefined, name: string): OfxNode[] {
+	if (!node) {
+		return [];
+	}
+
+	const found: OfxNode[] = [];
+	for (const c of node.children) {
+		if (c.name === name) {
+			found.push(c);
+		} else {
+			found.push(...findAll(c, name));
+		}
+	}
+	return found;
+}
+
+/**
+ * Text at a path of child names, searched from any depth for the first name
+ */
+function findText(node: OfxNode | undefined, path: string[]): string {
+	let current: OfxNode | undefined = findAll(node, path[0])[0];
+	for (const name of path.slice(1)) {
+		current = child(current, name);
+	}
+	return current?.text ?? '';
+}
+
+/**
+ * Parse an OFX datetime: YYYYMMDD[HHMMSS[.XXX]][[+|-]offset[:TZ]]
+ * The date is kept as written; the timestamp applies the offset (GMT when absent)
+ */
+function parseOfxDate(raw: string): { date: string; timestamp: number } | null {
+	const match = raw.trim().match(/^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?(?:\.\d+)?)?(?:\[([+-]?\d+(?:\.\d+)?)(?::[^\]]*)?\])?/);
+	if (!match) {
+		return null;
+	}
+
+	const [, year, month, day, hours = '0', minutes = '0', seconds = '0', offset = '0'] = match;
+	const utc = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds));
+	if (isNaN(utc)) {
+		return null;
+	}
+
+	return {
+		date: `${year}-${month}-${day}`,
+		timestamp: utc - parseFloat(offset) * 60 * 60 * 1000,
+	};
+}
+
+function formatAccountType(type: string): string {
+	const names: Record<string, string> = {
+		CHECKING: 'Checking',
+		SAVINGS: 'Savings',
+		MONEYMRKT: 'Money Market',
+		CREDITLINE: 'Credit Line',
+		CREDITCARD: 'Credit Card',
+	};
+	return names[type.toUpperCase()] ?? '';
+}
+
+function decodeEntities(text: string): string {
+	return text
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&quot;/g, '"')
+		.replace(/&apos;/g, "'")
+		.replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+		.replace(/&amp;/g, '&');
+}
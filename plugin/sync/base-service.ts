@@ -4,15 +4,75 @@
  */
 
 import { Notice } from 'obsidian';
-import { db } from '../database';
-import { OAuthTokens, SyncResult, DataSource, FetchedDataItem } from './types';
+import { GenerousAIDatabase, SyncCursor, SyncRecord } from '../database';
+import {
+	OAuthTokens,
+	SyncResult,
+	DataSource,
+	FetchedDataItem,
+	FetchedPage,
+	PaginationOptions,
+	HttpRequest,
+	HttpResponse,
+	SyncProgressCallback,
+	SyncRunOptions,
+	SyncStatus,
+	CachedDataChange,
+	DataTypePreview,
+} from './types';
+import { BackfillLimit } from '../types';
+import { TokenStore } from './token-store';
+import { TokenRevokedError } from './oauth-helper';
+import { HttpClient, RateLimitError, RequestAbortedError, getSyncErrorType } from './http-client';
+import { ChangeFeed } from './change-feed';
+import { ExclusionMatcher } from './exclusion-rules';
+
+/**
+ * Longest wait before retrying a failed sync
+ */
+const ERROR_RETRY_DELAY_MS = 15 * 60 * 1000;
+
+/**
+ * Items fetched per data type when previewing an import
+ */
+const PREVIEW_SAMPLE_SIZE = 5;
+
+/**
+ * Thrown when a running sync is cancelled
+ */
+export class SyncCancelledError extends Error {
+	constructor(source: DataSource) {
+		super(`${source} sync cancelled`);
+		this.name = 'SyncCancelledError';
+	}
+}
 
 export abstract class BaseSyncService {
 	protected serviceName: DataSource;
+	private displayName?: string;
 	protected tokens: OAuthTokens | null = null;
+	private tokenStore: TokenStore | null = null;
+	private reauthorizationRequired = false;
+	protected backfillLimit: BackfillLimit = { maxAgeDays: 0, maxItems: 0 };
+	protected http: HttpClient;
+	private signal?: AbortSignal;
+	private onProgress?: SyncProgressCallback;
+	private itemsCached = 0;
+	private writeCounts = { added: 0, updated: 0, unchanged: 0 };
+	private changeFeed: ChangeFeed | null = null;
+	private excludedDataTypes = new Set<string>();
+	private exclusionMatcher = new ExclusionMatcher();
+	private previews: Map<string, DataTypePreview> | null = null; // Set while previewing
+	protected db!: GenerousAIDatabase;
+	protected syncIntervalMs = 60 * 60 * 1000;
 
 	constructor(serviceName: DataSource) {
 		this.serviceName = serviceName;
+		this.http = new HttpClient(serviceName, {
+			getAccessToken: () => this.tokens?.access_token,
+			onUnauthorized: () => this.refreshTokensIfNeeded(true),
+			getSignal: () => this.signal,
+		});
 	}
 
 	/**
@@ -27,6 +87,81 @@ export abstract class BaseSyncService {
 		}
 	}
 
+	/**
+	 * Set the store notified whenever tokens are refreshed
+	 */
+	setTokenStore(store: TokenStore): void {
+		this.tokenStore = store;
+		this.reauthorizationRequired = store.isReauthorizationRequired(this.serviceName);
+	}
+
+	/**
+	 * Set how far back the first sync of each data type reaches
+	 */
+	setBackfillLimit(limit: BackfillLimit): void {
+		this.backfillLimit = limit;
+	}
+
+	/**
+	 * Set the vault database that sync state and cached items are written to
+	 */
+	setDatabase(database: GenerousAIDatabase): void {
+		this.db = database;
+	}
+
+	/**
+	 * Set the feed notified when cached items are added or modified
+	 */
+	setChangeFeed(feed: ChangeFeed): void {
+		this.changeFeed = feed;
+	}
+
+	/**
+	 * Set the data types this service never imports
+	 */
+	setExcludedDataTypes(dataTypes: string[]): void {
+		this.excludedDataTypes = new Set(dataTypes);
+	}
+
+	/**
+	 * Set the rules items are checked against before caching
+	 */
+	setExclusionMatcher(matcher: ExclusionMatcher): void {
+		this.exclusionMatcher = matcher;
+	}
+
+	/**
+	 * Check if the user excluded a data type
+	 * Nothing is excluded while previewing, so every data type can be reviewed
+	 */
+	protected isExcluded(dataType: string): boolean {
+		return this.previews === null && this.excludedDataTypes.has(dataType);
+	}
+
+	/**
+	 * Set how long after a sync the next one is due
+	 */
+	setSyncInterval(minutes: number): void {
+		this.syncIntervalMs = minutes * 60 * 1000;
+	}
+
+	/**
+	 * Earliest timestamp a backfill should fetch, if limited
+	 */
+	protected getBackfillStart(): number | undefined {
+		if (this.backfillLimit.maxAgeDays <= 0) {
+			return undefined;
+		}
+		return Date.now() - this.backfillLimit.maxAgeDays * 24 * 60 * 60 * 1000;
+	}
+
+	/**
+	 * Check if the user must reconnect this service
+	 */
+	needsReauthorization(): boolean {
+		return this.reauthorizationRequired;
+	}
+
 	/**
 	 * Get current tokens
 	 */
@@ -50,15 +185,21 @@ export abstract class BaseSyncService {
 	 * Check if service is authenticated
 	 */
 	isAuthenticated(): boolean {
-		return this.tokens !== null && !this.isTokenExpired();
+		if (this.tokens === null || this.reauthorizationRequired) {
+			return false;
+		}
+
+		// Expired tokens still count if they can be refreshed
+		return !this.isTokenExpired() || !!this.tokens.refresh_token;
 	}
 
 	/**
 	 * Refresh OAuth tokens if needed
 	 * Should be implemented by services that support refresh tokens
+	 * Pass force to refresh a token the API rejected before it expired
 	 */
-	async refreshTokensIfNeeded(): Promise<boolean> {
-		if (!this.isTokenExpired()) {
+	async refreshTokensIfNeeded(force = false): Promise<boolean> {
+		if (!force && !this.isTokenExpired()) {
 			return true;
 		}
 
@@ -66,13 +207,31 @@ export abstract class BaseSyncService {
 			return false; // No refresh token available
 		}
 
+		const previous = this.tokens;
+
 		try {
 			await this.refreshTokens();
-			return true;
 		} catch (error) {
 			console.error(`Failed to refresh tokens for ${this.serviceName}:`, error);
+
+			if (error instanceof TokenRevokedError) {
+				this.reauthorizationRequired = true;
+				await this.tokenStore?.markReauthorizationRequired(this.serviceName, error.message);
+			}
+
 			return false;
 		}
+
+		// Persist refreshed tokens so they survive a restart
+		if (this.tokens && this.tokenStore) {
+			try {
+				await this.tokenStore.saveTokens(this.serviceName, this.tokens, previous);
+			} catch (error) {
+				console.error(`Failed to persist refreshed tokens for ${this.serviceName}:`, error);
+			}
+		}
+
+		return true;
 	}
 
 	/**
@@ -86,12 +245,18 @@ export abstract class BaseSyncService {
 	/**
 	 * Perform full sync for this service
 	 */
-	async sync(): Promise<SyncResult> {
+	async sync(options: SyncRunOptions = {}): Promise<SyncResult> {
+		this.signal = options.signal;
+		this.onProgress = options.onProgress;
+		this.itemsCached = 0;
+		this.writeCounts = { added: 0, updated: 0, unchanged: 0 };
+
 		const result: SyncResult = {
 			success: false,
 			itemsProcessed: 0,
 			itemsAdded: 0,
 			itemsUpdated: 0,
+			itemsUnchanged: 0,
 			errors: [],
 			lastSyncTimestamp: Date.now(),
 		};
@@ -99,52 +264,135 @@ export abstract class BaseSyncService {
 		try {
 			// Check authentication
 			if (!this.isAuthenticated()) {
-				throw new Error(`Not authenticated with ${this.serviceName}`);
+				throw new Error(
+					this.reauthorizationRequired
+						? `Reauthorization required for ${this.serviceName}`
+						: `Not authenticated with ${this.serviceName}`
+				);
 			}
 
 			// Refresh tokens if needed
 			const refreshed = await this.refreshTokensIfNeeded();
 			if (!refreshed) {
-				throw new Error('Failed to refresh tokens');
+				throw new Error(
+					this.reauthorizationRequired
+						? `Reauthorization required for ${this.serviceName}`
+						: 'Failed to refresh tokens'
+				);
 			}
 
 			// Update sync status
-			await db.updateSyncState(this.serviceName, {
+			await this.db.updateSyncState(this.serviceName, {
 				status: 'syncing',
 				lastSync: Date.now(),
 			});
+			this.emitProgress('syncing', `Syncing ${this.getDisplayName()}...`);
 
 			// Perform the actual sync (implemented by subclasses)
 			const syncResult = await this.performSync();
 
 			// Update result
 			Object.assign(result, syncResult);
+			result.itemsAdded = this.writeCounts.added;
+			result.itemsUpdated = this.writeCounts.updated;
+			result.itemsUnchanged = this.writeCounts.unchanged;
 			result.success = true;
 
 			// Update sync status
-			await db.updateSyncState(this.serviceName, {
+			await this.db.updateSyncState(this.serviceName, {
 				status: 'idle',
 				lastSync: Date.now(),
-				nextSync: Date.now() + 60 * 60 * 1000, // 1 hour from now
+				nextSync: Date.now() + this.syncIntervalMs,
+				errorMessage: undefined,
+				errorType: undefined,
 			});
 
+			this.emitProgress('success', `${this.getDisplayName()} synced`, result.itemsProcessed);
 			new Notice(`${this.serviceName} sync completed: ${result.itemsProcessed} items`);
 		} catch (error) {
+			if (error instanceof SyncCancelledError) {
+				// Cursors and checkpoints already saved let the next sync resume
+				result.errors.push(error.message);
+				await this.db.updateSyncState(this.serviceName, {
+					status: 'idle',
+					nextSync: Date.now() + this.syncIntervalMs,
+				});
+				this.emitProgress('idle', error.message, this.itemsCached);
+				new Notice(error.message);
+				return result;
+			}
+
 			console.error(`Sync failed for ${this.serviceName}:`, error);
 			const errorMessage = error instanceof Error ? error.message : String(error);
 			result.errors.push(errorMessage);
 
-			await db.updateSyncState(this.serviceName, {
+			// Retry failures sooner than the regular interval, but not before
+			// the provider says we may
+			const retryDelay = error instanceof RateLimitError && error.retryAfterMs
+				? error.retryAfterMs
+				: Math.min(this.syncIntervalMs, ERROR_RETRY_DELAY_MS);
+
+			const state: Partial<SyncRecord> = {
 				status: 'error',
 				errorMessage: errorMessage,
-			});
+				errorType: getSyncErrorType(error),
+				nextSync: Date.now() + retryDelay,
+			};
+
+			await this.db.updateSyncState(this.serviceName, state);
+			this.emitProgress('error', errorMessage);
 
 			new Notice(`${this.serviceName} sync failed: ${errorMessage}`);
+		} finally {
+			// A finished run's signal must not cancel caching done outside a run
+			this.signal = undefined;
+			this.onProgress = undefined;
 		}
 
 		return result;
 	}
 
+	/**
+	 * Count and sample what a first sync would import, without caching anything
+	 * Runs fetchData with cache and cursor writes disabled, reading one page per data type
+	 */
+	async preview(options: SyncRunOptions = {}): Promise<DataTypePreview[]> {
+		if (!this.isAuthenticated() || !(await this.refreshTokensIfNeeded())) {
+			throw new Error(`Not authenticated with ${this.serviceName}`);
+		}
+
+		this.signal = options.signal;
+		this.onProgress = options.onProgress;
+		this.previews = new Map();
+
+		try {
+			this.emitProgress('syncing', `Scanning ${this.getDisplayName()}...`);
+			await this.fetchData();
+			return Array.from(this.previews.values());
+		} finally {
+			this.previews = null;
+		}
+	}
+
+	/**
+	 * Check if this service is previewing rather than syncing
+	 */
+	protected isPreviewing(): boolean {
+		return this.previews !== null;
+	}
+
+	/**
+	 * Get (creating if needed) the preview entry for a data type
+	 */
+	private getPreview(dataType: string): DataTypePreview {
+		let preview = this.previews!.get(dataType);
+		if (!preview) {
+			preview = { source: this.serviceName, dataType, count: 0, estimated: false, samples: [] };
+			this.previews!.set(dataType, preview);
+		}
+		return preview;
+	}
+
 	/**
 	 * Perform the actual sync operation
 	 * Must be implemented by subclasses
@@ -158,58 +406,245 @@ export abstract class BaseSyncService {
 	protected abstract fetchData(since?: number): Promise<FetchedDataItem[]>;
 
 	/**
-	 * Cache fetched data to database
+	 * Get the incremental sync cursor for one of this service's data types
+	 */
+	protected async getCursor(dataType: string): Promise<SyncCursor | undefined> {
+		return await this.db.getSyncCursor(this.serviceName, dataType);
+	}
+
+	/**
+	 * Save the incremental sync cursor for one of this service's data types
+	 */
+	protected async saveCursor(
+		dataType: string,
+		update: Partial<Pick<SyncCursor, 'lastTimestamp' | 'cursor' | 'backfill' | 'failedIds'>>
+	): Promise<void> {
+		if (this.isPreviewing()) {
+			return;
+		}
+		await this.db.updateSyncCursor(this.serviceName, dataType, update);
+	}
+
+	/**
+	 * Fetch every page of a paginated endpoint
+	 * With a checkpointKey, the next page token is saved after each page so an
+	 * interrupted backfill resumes where it stopped (even across restarts)
+	 * Items handed to onPage are not kept - only without onPage are all items returned
+	 */
+	protected async fetchPaginated<T>(
+		fetchPage: (pageToken: string | undefined, params: Record<string, string>) => Promise<FetchedPage<T>>,
+		options: PaginationOptions<T> = {}
+	): Promise<T[]> {
+		const { checkpointKey, onPage } = options;
+		const maxItems = options.maxItems || Infinity;
+
+		// Resume an unfinished backfill with the parameters it was started with
+		const checkpoint = checkpointKey ? (await this.getCursor(checkpointKey))?.backfill : undefined;
+		if (checkpoint) {
+			console.log(`Resuming ${this.serviceName} ${checkpointKey} backfill after ${checkpoint.itemsFetched} items`);
+		}
+
+		const params = checkpoint?.params ?? options.params ?? {};
+		const startedAt = checkpoint?.startedAt ?? Date.now();
+		let pageToken = checkpoint?.pageToken;
+		let itemsFetched = checkpoint?.itemsFetched ?? 0;
+		let checkpointed = !!checkpoint;
+		const items: T[] = [];
+
+		while (true) {
+			this.throwIfAborted();
+
+			const page = await fetchPage(pageToken, params);
+
+			// A preview only processes a few items and takes the count from the first page
+			if (this.isPreviewing()) {
+				if (onPage) {
+					await onPage(page.items.slice(0, Math.min(PREVIEW_SAMPLE_SIZE, maxItems)));
+				}
+				if (checkpointKey) {
+					const preview = this.getPreview(checkpointKey);
+					preview.count = Math.min(page.totalItems ?? page.items.length, maxItems);
+					preview.estimated = !!page.nextPageToken && preview.count < maxItems;
+				}
+				return page.items;
+			}
+
+			const pageItems = page.items.slice(0, maxItems - itemsFetched);
+
+			if (onPage) {
+				// Past the limit with readToLastPage, pages are only read for their token
+				if (itemsFetched < maxItems) {
+					await onPage(pageItems);
+				}
+			} else {
+				items.push(...pageItems);
+			}
+			itemsFetched += pageItems.length;
+			pageToken = page.nextPageToken;
+
+			if (checkpointKey) {
+				const total = page.totalItems !== undefined
+					? Math.min(page.totalItems, maxItems)
+					: undefined;
+				this.emitProgress('syncing', `Fetching ${checkpointKey}`, itemsFetched, total);
+			}
+
+			if (!pageToken || (itemsFetched >= maxItems && !options.readToLastPage)) {
+				break;
+			}
+
+			if (checkpointKey) {
+				await this.saveCursor(checkpointKey, {
+					backfill: { pageToken, itemsFetched, params, startedAt },
+				});
+				checkpointed = true;
+			}
+		}
+
+		// Backfill finished - clear the resume point
+		if (checkpointKey && checkpointed) {
+			await this.saveCursor(checkpointKey, { backfill: undefined });
+		}
+
+		return items;
+	}
+
+	/**
+	 * Check if a paginated backfill is unfinished for a data type
+	 */
+	protected async hasPendingBackfill(dataType: string): Promise<boolean> {
+		return !!(await this.getCursor(dataType))?.backfill;
+	}
+
+	/**
+	 * Cache fetched data to database in one transaction
+	 * Counts each write as added, updated or unchanged and publishes real changes
 	 */
 	protected async cacheData(items: FetchedDataItem[]): Promise<void> {
-		for (const item of items) {
-			await db.cacheData(
-				item.source,
-				item.type,
-				item.id,
-				item.data,
-				item.metadata
-			);
+		this.throwIfAborted();
+
+		if (this.isPreviewing()) {
+			for (const item of items) {
+				const preview = this.getPreview(item.type);
+				preview.count++;
+				if (preview.samples.length < PREVIEW_SAMPLE_SIZE) {
+					preview.samples.push(item);
+				}
+			}
+			return;
 		}
+
+		// Never store excluded data types or items matching an exclusion rule
+		items = items.filter(
+			(item) =>
+				!this.excludedDataTypes.has(item.type) &&
+				!this.exclusionMatcher.match(item.source, item.type, item.data)
+		);
+
+		const outcomes = await this.db.cacheDataBatch(
+			items.map((item) => ({
+				source: item.source,
+				dataType: item.type,
+				externalId: item.id,
+				data: item.data,
+				metadata: item.metadata,
+				timestamp: item.timestamp,
+			}))
+		);
+
+		const changes: CachedDataChange[] = [];
+
+		items.forEach((item, i) => {
+			const outcome = outcomes[i];
+			this.writeCounts[outcome]++;
+
+			if (outcome !== 'unchanged') {
+				changes.push({
+					source: item.source,
+					dataType: item.type,
+					externalId: item.id,
+					change: outcome,
+					data: item.data,
+					changedAt: Date.now(),
+				});
+			}
+		});
+
+		this.changeFeed?.publish(changes);
+
+		this.itemsCached += items.length;
+		this.emitProgress('syncing', `Cached ${this.itemsCached} items`, this.itemsCached);
 	}
 
 	/**
 	 * Make authenticated API request
+	 * Rate limiting, retries and the 401 refresh are handled by the HTTP client
 	 */
 	protected async makeRequest(
 		url: string,
-		options: RequestInit = {}
-	): Promise<Response> {
+		options: Omit<HttpRequest, 'url'> = {}
+	): Promise<HttpResponse> {
 		if (!this.tokens) {
 			throw new Error('Not authenticated');
 		}
 
-		const headers = new Headers(options.headers);
-		headers.set('Authorization', `Bearer ${this.tokens.access_token}`);
+		this.throwIfAborted();
 
-		const response = await fetch(url, {
-			...options,
-			headers,
-		});
+		try {
+			return await this.http.request(url, options);
+		} catch (error) {
+			if (error instanceof RequestAbortedError) {
+				throw new SyncCancelledError(this.serviceName);
+			}
+			throw error;
+		}
+	}
 
-		if (!response.ok) {
-			const errorText = await response.text();
-			throw new Error(
-				`API request failed (${response.status}): ${errorText}`
-			);
+	/**
+	 * Stop the sync if it has been cancelled
+	 */
+	protected throwIfAborted(): void {
+		if (this.signal?.aborted) {
+			throw new SyncCancelledError(this.serviceName);
 		}
+	}
+
+	/**
+	 * Report sync progress to the listener, if any
+	 */
+	protected emitProgress(
+		status: SyncStatus,
+		message: string,
+		itemsProcessed?: number,
+		totalItems?: number
+	): void {
+		this.onProgress?.({
+			source: this.serviceName,
+			status,
+			message,
+			itemsProcessed,
+			totalItems,
+		});
+	}
 
-		return response;
+	/**
+	 * Data source this service syncs
+	 */
+	getSource(): DataSource {
+		return this.serviceName;
+	}
+
+	/**
+	 * Set the name shown in notices and settings (from the source's registration)
+	 */
+	setDisplayName(name: string): void {
+		this.displayName = name;
 	}
 
 	/**
 	 * Get service display name
 	 */
 	getDisplayName(): string {
-		const names: Record<DataSource, string> = {
-			google: 'Google',
-			spotify: 'Spotify',
-			ynab: 'YNAB',
-		};
-		return names[this.serviceName];
+		return this.displayName ?? this.serviceName;
 	}
 }
@@ -0,0 +1,131 @@
+/**
+ * Built-in data sources
+ * Registered the same way as third-party sources
+ */
+
+import GenerousAIPlugin from '../main';
+import { GoogleService } from './google-service';
+import { SpotifyService } from './spotify-service';
+import { YNABService } from './ynab-service';
+import { FileImportService } from './file-import-service';
+import { BANK_SOURCE } from './bank-csv';
+import { HEALTH_SOURCE } from './apple-health';
+import { NOTE_DATA_TYPE, VAULT_NOTES_SOURCE, VaultNotesService } from './vault-notes';
+import { DataSourceDescriptor } from './data-source-registry';
+
+/**
+ * Google (Gmail, Calendar, Drive)
+ */
+export const GOOGLE_DATA_SOURCE: DataSourceDescriptor = {
+	id: 'google',
+	displayName: 'Google',
+	authKind: 'oauth',
+	dataTypes: [
+		{ id: 'email', label: 'Emails' },
+		{ id: 'calendar_event', label: 'Calendar events' },
+		{ id: 'drive_file', label: 'Drive files' },
+	],
+	async createService(plugin: GenerousAIPlugin) {
+		const tokensJson = await plugin.decryptSetting('googleTokens');
+		if (!tokensJson) return null;
+
+		const service = new GoogleService(await plugin.syncManager.getOAuthConfig('google'));
+		service.setTokens(JSON.parse(tokensJson));
+		return service;
+	},
+};
+
+/**
+ * Spotify listening history
+ */
+export const SPOTIFY_DATA_SOURCE: DataSourceDescriptor = {
+	id: 'spotify',
+	displayName: 'Spotify',
+	authKind: 'oauth',
+	dataTypes: [
+		{ id: 'recently_played', label: 'Recently played tracks' },
+		{ id: 'top_track', label: 'Top tracks' },
+		{ id: 'saved_track', label: 'Saved tracks' },
+	],
+	async createService(plugin: GenerousAIPlugin) {
+		const tokensJson = await plugin.decryptSetting('spotifyTokens');
+		if (!tokensJson) return null;
+
+		const service = new SpotifyService(await plugin.syncManager.getOAuthConfig('spotify'));
+		service.setTokens(JSON.parse(tokensJson));
+		return service;
+	},
+};
+
+/**
+ * YNAB budget transactions
+ */
+export const YNAB_DATA_SOURCE: DataSourceDescriptor = {
+	id: 'ynab',
+	displayName: 'YNAB',
+	authKind: 'api_key',
+	dataTypes: [{ id: 'transaction', label: 'Transactions' }],
+	async createService(plugin: GenerousAIPlugin) {
+		const apiToken = await plugin.decryptSetting('ynabToken');
+		if (!apiToken) return null;
+
+		return new YNABService(apiToken);
+	},
+};
+
+/**
+ * Bank and credit card statements imported from CSV, OFX and QFX files
+ */
+export const BANK_DATA_SOURCE: DataSourceDescriptor = {
+	id: BANK_SOURCE,
+	displayName: 'Bank statements',
+	authKind: 'none',
+	importOnly: true,
+	dataTypes: [
+		{ id: 'transaction', label: 'Transactions' },
+		{ id: 'account_balance', label: 'Account balances' },
+	],
+	async createService() {
+		return new FileImportService(BANK_SOURCE);
+	},
+};
+
+/**
+ * Daily health summaries imported from an Apple Health export
+ */
+export const HEALTH_DATA_SOURCE: DataSourceDescriptor = {
+	id: HEALTH_SOURCE,
+	displayName: 'Apple Health',
+	authKind: 'none',
+	importOnly: true,
+	dataTypes: [{ id: 'health', label: 'Daily health summaries' }],
+	async createService() {
+		return new FileImportService(HEALTH_SOURCE);
+	},
+};
+
+/**
+ * Notes from the folders picked in settings
+ */
+export const VAULT_NOTES_DATA_SOURCE: DataSourceDescriptor = {
+	id: VAULT_NOTES_SOURCE,
+	displayName: 'Vault notes',
+	authKind: 'none',
+	dataTypes: [{ id: NOTE_DATA_TYPE, label: 'Notes' }],
+	async createService(plugin: GenerousAIPlugin) {
+		return new VaultNotesService(
+			plugin.app.vault,
+			() => plugin.settings,
+			(notes) => plugin.weaveManager.forgetCachedItems(notes)
+		);
+	},
+};
+
+export const BUILT_IN_DATA_SOURCES: DataSourceDescriptor[] = [
+	GOOGLE_DATA_SOURCE,
+	SPOTIFY_DATA_SOURCE,
+	YNAB_DATA_SOURCE,
+	BANK_DATA_SOURCE,
+	HEALTH_DATA_SOURCE,
+	VAULT_NOTES_DATA_SOURCE,
+];
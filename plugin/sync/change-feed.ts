@@ -0,0 +1,74 @@
+/**
+ * Change feed
+ * Publishes cached items that were added or modified by a sync
+ */
+
+import { CachedData, GenerousAIDatabase } from '../database';
+import { CachedDataChange } from './types';
+
+/**
+ * Listener for batches of changes
+ */
+export type ChangeListener = (changes: CachedDataChange[]) => void | Promise<void>;
+
+/**
+ * Change feed for cached data
+ */
+export class ChangeFeed {
+	private db: GenerousAIDatabase;
+	private listeners = new Set<ChangeListener>();
+
+	constructor(database: GenerousAIDatabase) {
+		this.db = database;
+	}
+
+	/**
+	 * Listen for changes as they are cached
+	 * Returns a function that removes the listener
+	 */
+	subscribe(listener: ChangeListener): () => void {
+		this.listeners.add(listener);
+		return () => this.listeners.delete(listener);
+	}
+
+	/**
+	 * Notify listeners of a batch of changes
+	 * Listeners run in the background so they never slow down a sync
+	 */
+	publish(changes: CachedDataChange[]): void {
+		if (changes.length === 0) {
+			return;
+		}
+
+		for (const listener of this.listeners) {
+			Promise.resolve()
+				.then(() => listener(changes))
+				.catch((error) => console.error('Change feed listener failed:', error));
+		}
+	}
+
+	/**
+	 * Items added or modified after a timestamp, oldest first
+	 */
+	async getChangesSince(
+		since: number,
+		filter: { source?: string; dataType?: string } = {}
+	): Promise<CachedData[]> {
+		return await this.db.cachedData
+			.where('changedAt')
+			.above(since)
+			.filter(
+				(item) =>
+					(!filter.source || item.source === filter.source) &&
+					(!filter.dataType || item.dataType === filter.dataType)
+			)
+			.toArray();
+	}
+
+	/**
+	 * Remove all listeners
+	 */
+	clear(): void {
+		this.listeners.clear();
+	}
+}
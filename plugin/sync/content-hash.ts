@@ -0,0 +1,43 @@
+/**
+ * Content hashing for cached data
+ * Detects whether a re-fetched item actually changed
+ */
+
+/**
+ * JSON with object keys sorted, so equal data always serializes the same way
+ */
+export function stableStringify(value: any): string {
+	if (value === null || typeof value !== 'object') {
+		return JSON.stringify(value) ?? 'null';
+	}
+
+	if (Array.isArray(value)) {
+		return `[${value.map((item) => stableStringify(item)).join(',')}]`;
+	}
+
+	const keys = Object.keys(value)
+		.filter((key) => value[key] !== undefined)
+		.sort();
+	return `{${keys.map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+}
+
+/**
+ * 53-bit hash (cyrb53) of the data's stable JSON, as hex
+ * Not cryptographic - only used to compare versions of the same item
+ */
+export function hashContent(data: any): string {
+	const text = stableStringify(data);
+	let h1 = 0xdeadbeef;
+	let h2 = 0x41c6ce57;
+
+	for (let i = 0; i < text.length; i++) {
+		const ch = text.charCodeAt(i);
+		h1 = Math.imul(h1 ^ ch, 2654435761);
+		h2 = Math.imul(h2 ^ ch, 1597334677);
+	}
+
+	h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+	h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+	return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
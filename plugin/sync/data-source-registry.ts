@@ -0,0 +1,125 @@
+/**
+ * Data source registry
+ * Every source the plugin can sync - the built-in ones and those added by other plugins
+ */
+
+import GenerousAIPlugin from '../main';
+import { BaseSyncService } from './base-service';
+import { CachedData } from '../database';
+import { GraphManager } from '../weave/graph-manager';
+import { WeavePattern } from '../weave/types';
+import { setProviderRateLimit } from './http-client';
+import { DataSource, DataSourceAuthKind, DataTypeDescriptor, RateLimitConfig } from './types';
+
+/**
+ * Ids that can't be registered - entity sources use them for facts that didn't come from a sync
+ */
+const RESERVED_IDS = ['manual', 'inferred'];
+
+/**
+ * Everything the plugin needs to know about a data source
+ */
+export interface DataSourceDescriptor {
+	id: DataSource; // Lowercase letters, digits, '-' and '_'
+	displayName: string;
+	authKind: DataSourceAuthKind;
+	dataTypes: DataTypeDescriptor[];
+	rateLimit?: RateLimitConfig; // Shared by every request to this source
+	importOnly?: boolean; // Items come from files the user imports - never scheduled or reviewed
+
+	/**
+	 * Build the sync service, or return null if the source isn't connected yet
+	 * Called once the master password is unlocked, and again after reconnecting
+	 */
+	createService(plugin: GenerousAIPlugin): Promise<BaseSyncService | null>;
+
+	/**
+	 * Describe one cached item for entity extraction (defaults to its JSON)
+	 */
+	buildExtractionPrompt?(dataType: string, data: any): string;
+
+	/**
+	 * Find routines in this source's cached items
+	 */
+	detectPatterns?(items: CachedData[], graph: GraphManager): Promise<WeavePattern[]>;
+}
+
+/**
+ * Registered data sources, in registration order
+ */
+export class DataSourceRegistry {
+	private descriptors = new Map<DataSource, DataSourceDescriptor>();
+
+	/**
+	 * Add a data source
+	 * Returns a function that removes it again
+	 */
+	register(descriptor: DataSourceDescriptor): () => void {
+		const { id } = descriptor;
+
+		if (!/^[a-z][a-z0-9_-]*$/.test(id)) {
+			throw new Error(`Invalid data source id "${id}" - use lowercase letters, digits, '-' and '_'`);
+		}
+		if (RESERVED_IDS.includes(id)) {
+			throw new Error(`Data source id "${id}" is reserved`);
+		}
+		if (this.descriptors.has(id)) {
+			throw new Error(`Data source "${id}" is already registered`);
+		}
+
+		this.descriptors.set(id, descriptor);
+		if (descriptor.rateLimit) {
+			setProviderRateLimit(id, descriptor.rateLimit);
+		}
+
+		console.log(`Registered data source: ${descriptor.displayName}`);
+
+		return () => {
+			if (this.descriptors.get(id) === descriptor) {
+				this.descriptors.delete(id);
+			}
+		};
+	}
+
+	/**
+	 * Get a data source by id
+	 */
+	get(id: DataSource): DataSourceDescriptor | undefined {
+		return this.descriptors.get(id);
+	}
+
+	/**
+	 * Check if a data source is registered
+	 */
+	has(id: string): boolean {
+		return this.descriptors.has(id);
+	}
+
+	/**
+	 * All data sources
+	 */
+	getAll(): DataSourceDescriptor[] {
+		return Array.from(this.descriptors.values());
+	}
+
+	/**
+	 * All data source ids
+	 */
+	getIds(): DataSource[] {
+		return Array.from(this.descriptors.keys());
+	}
+
+	/**
+	 * Display name for a source, falling back to its id
+	 */
+	getDisplayName(id: DataSource): string {
+		return this.descriptors.get(id)?.displayName ?? id;
+	}
+
+	/**
+	 * Label for a data type, falling back to its id
+	 */
+	getDataTypeLabel(id: DataSource, dataType: string): string {
+		return this.descriptors.get(id)?.dataTypes.find((type) => type.id === dataType)?.label ?? dataType;
+	}
+}
@@ -0,0 +1,190 @@
+/**
+ * Exclusion rules
+ * Durable filters that keep matching items out of the cache, declared one per line:
+ *
+ *   - google email domain: newsletters.example.com
+ *   - spotify recently_played context: spotify:playlist:37i9dQZF1DX6R7QUWePReA
+ *   - ynab * account: Kids Savings
+ *
+ * Values are case-insensitive and may use `*` as a wildcard
+ */
+
+import { BuiltInDataSource, DataSource, ExclusionRule } from './types';
+import { stableStringify, hashContent } from './content-hash';
+
+const BUILT_IN_SOURCES: BuiltInDataSource[] = ['google', 'spotify', 'ynab'];
+
+/**
+ * What a rule field compares, given an item's data
+ */
+type FieldMatcher = (data: any, value: string) => boolean;
+
+/**
+ * Supported rule fields
+ */
+const FIELD_MATCHERS: Record<string, FieldMatcher> = {
+	// Gmail
+	label: (data, value) => anyMatch(data.labelIds, value),
+	sender: (data, value) => globMatch(getSenderAddress(data.from), value),
+	domain: (data, value) => {
+		const domain = getSenderAddress(data.from).split('@')[1] || '';
+		const wanted = value.toLowerCase();
+		return domain === wanted || domain.endsWith(`.${wanted}`);
+	},
+
+	// Calendar - events on a shared or secondary calendar are organized by that calendar
+	calendar: (data, value) =>
+		globMatch(data.organizer?.email, value) || globMatch(data.organizer?.displayName, value),
+
+	// YNAB
+	account: (data, value) => globMatch(data.accountName, value),
+	category: (data, value) => globMatch(data.categoryName, value),
+	payee: (data, value) => globMatch(data.payeeName, value),
+
+	// Spotify
+	context: (data, value) => globMatch(data.context?.uri, value),
+	artist: (data, value) => anyMatch(data.artists, value),
+
+	// Any source - substring of the item's title and text
+	keyword: (data, value) => {
+		const text = [
+			data.title,
+			data.subject,
+			data.snippet,
+			data.summary,
+			data.description,
+			data.name,
+			data.memo,
+			data.trackName,
+			data.album,
+			data.content,
+		]
+			.filter((part) => typeof part === 'string')
+			.join('\n')
+			.toLowerCase();
+		return text.includes(value.toLowerCase());
+	},
+};
+
+/**
+ * Parse rules from text (settings or a markdown note)
+ * Lines that aren't list items are ignored, so notes can hold prose and headings
+ */
+export function parseExclusionRules(
+	text: string,
+	origin: string,
+	sources: DataSource[] = BUILT_IN_SOURCES
+): { rules: ExclusionRule[]; errors: string[] } {
+	const rules: ExclusionRule[] = [];
+	const errors: string[] = [];
+
+	text.split('\n').forEach((rawLine, index) => {
+		const line = rawLine.trim();
+		// Only list items with a "field: value" part are rules - other bullets are prose
+		if (!/^[-*]\s+/.test(line) || !line.includes(':')) {
+			return;
+		}
+
+		const where = `${origin}:${index + 1}`;
+		const match = line.replace(/^[-*]\s+/, '').match(/^(\S+)\s+(\S+)\s+(\w+)\s*:\s*(.+)$/);
+		if (!match) {
+			errors.push(`${where}: expected "- <source> <data type or *> <field>: <value>"`);
+			return;
+		}
+
+		const [, source, dataType, field, value] = match;
+		if (!sources.includes(source)) {
+			errors.push(`${where}: unknown source "${source}"`);
+			return;
+		}
+		if (!FIELD_MATCHERS[field.toLowerCase()]) {
+			errors.push(`${where}: unknown field "${field}"`);
+			return;
+		}
+
+		rules.push({
+			source,
+			dataType,
+			field: field.toLowerCase(),
+			value: value.trim(),
+			origin: where,
+		});
+	});
+
+	return { rules, errors };
+}
+
+/**
+ * Shared matcher every service runs items through before caching
+ */
+export class ExclusionMatcher {
+	private rules: ExclusionRule[];
+
+	constructor(rules: ExclusionRule[] = []) {
+		this.rules = rules;
+	}
+
+	/**
+	 * Sources that have at least one rule
+	 */
+	getSources(): DataSource[] {
+		return Array.from(new Set(this.rules.map((rule) => rule.source)));
+	}
+
+	/**
+	 * First rule excluding an item, if any
+	 */
+	match(source: string, dataType: string, data: any): ExclusionRule | undefined {
+		if (!data) {
+			return undefined;
+		}
+
+		return this.rules.find(
+			(rule) =>
+				rule.source === source &&
+				(rule.dataType === '*' || rule.dataType === dataType) &&
+				FIELD_MATCHERS[rule.field](data, rule.value)
+		);
+	}
+
+	/**
+	 * Fingerprint of the rules, ignoring where they were declared
+	 */
+	getFingerprint(): string {
+		const rules = this.rules
+			.map(({ source, dataType, field, value }) => ({ source, dataType, field, value: value.toLowerCase() }))
+			.sort((a, b) => stableStringify(a).localeCompare(stableStringify(b)));
+		return hashContent(rules);
+	}
+}
+
+/**
+ * Case-insensitive match with `*` wildcards
+ */
+function globMatch(candidate: unknown, pattern: string): boolean {
+	if (typeof candidate !== 'string' || candidate.length === 0) {
+		return false;
+	}
+
+	const escaped = pattern
+		.toLowerCase()
+		.split('*')
+		.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+		.join('.*');
+	return new RegExp(`^${escaped}$`).test(candidate.toLowerCase());
+}
+
+function anyMatch(candidates: unknown, pattern: string): boolean {
+	return Array.isArray(candidates) && candidates.some((candidate) => globMatch(candidate, pattern));
+}
+
+/**
+ * Bare address from a From header ("Name <a@b.com>" -> "a@b.com")
+ */
+function getSenderAddress(from: unknown): string {
+	if (typeof from !== 'string') {
+		return '';
+	}
+	const angle = from.match(/<([^>]+)>/);
+	return (angle ? angle[1] : from).trim().toLowerCase();
+}
@@ -0,0 +1,62 @@
+/**
+ * File import service
+ * Caches items parsed from files the user imports (bank statements, exports) instead of
+ * fetching them from an API
+ */
+
+import { BaseSyncService } from './base-service';
+import { DataSource, FetchedDataItem, SyncResult } from './types';
+
+/**
+ * Items cached per transaction, so long files report progress as they go
+ */
+const IMPORT_BATCH_SIZE = 500;
+
+/**
+ * Service for an import-only data source
+ * Items are staged by the importer, then cached by a regular sync run
+ */
+export class FileImportService extends BaseSyncService {
+	private staged: FetchedDataItem[] = [];
+
+	constructor(source: DataSource) {
+		super(source);
+	}
+
+	/**
+	 * Queue parsed items for the next run
+	 */
+	stageItems(items: FetchedDataItem[]): void {
+		this.staged.push(...items);
+	}
+
+	/**
+	 * Nothing to authenticate - items come from local files
+	 */
+	isAuthenticated(): boolean {
+		return true;
+	}
+
+	/**
+	 * Cache the staged items
+	 * Re-imported items keep their ids, so they count as unchanged rather than duplicates
+	 */
+	protected async performSync(): Promise<Partial<SyncResult>> {
+		const items = await this.fetchData();
+
+		for (let i = 0; i < items.length; i += IMPORT_BATCH_SIZE) {
+			await this.cacheData(items.slice(i, i + IMPORT_BATCH_SIZE));
+		}
+
+		return { itemsProcessed: items.length };
+	}
+
+	/**
+	 * Take the staged items, dropping excluded data types
+	 */
+	protected async fetchData(): Promise<FetchedDataItem[]> {
+		const items = this.staged.filter((item) => !this.isExcluded(item.type));
+		this.staged = [];
+		return items;
+	}
+}
@@ -0,0 +1,281 @@
+/**
+ * Gmail message parser
+ * Walks MIME payloads to extract readable body text and attachment metadata
+ */
+
+/**
+ * A MIME part of a Gmail message (the payload itself is the root part)
+ */
+export interface GmailMessagePart {
+	partId?: string;
+	mimeType?: string;
+	filename?: string;
+	headers?: Array<{ name: string; value: string }>;
+	body?: { data?: string; size?: number; attachmentId?: string };
+	parts?: GmailMessagePart[];
+}
+
+/**
+ * Attachment metadata (content is never downloaded)
+ */
+export interface GmailAttachment {
+	filename: string;
+	mimeType: string;
+	size: number;
+}
+
+/**
+ * Parsed message content
+ */
+export interface ParsedGmailBody {
+	body: string;
+	attachments: GmailAttachment[];
+}
+
+/**
+ * Loads the data of a part Gmail only returns by attachmentId (large bodies)
+ */
+export type GmailPartLoader = (attachmentId: string) => Promise<string | undefined>;
+
+/**
+ * Upper bound on stored body length
+ */
+const MAX_BODY_LENGTH = 20000;
+
+/**
+ * Lines at the end of a body searched for a signature delimiter
+ */
+const MAX_SIGNATURE_LINES = 10;
+
+/**
+ * Parse a Gmail payload into clean body text and attachment metadata
+ * Prefers text/plain, falls back to text/html converted to text,
+ * and strips quoted replies and signatures
+ */
+export async function parseGmailPayload(
+	payload: GmailMessagePart,
+	loadPart?: GmailPartLoader
+): Promise<ParsedGmailBody> {
+	const plainParts: GmailMessagePart[] = [];
+	const htmlParts: GmailMessagePart[] = [];
+	const attachments: GmailAttachment[] = [];
+
+	collectParts(payload, plainParts, htmlParts, attachments);
+
+	// HTML is only read (and downloaded) when there is no plain text
+	let body = (await readTextParts(plainParts, loadPart)).join('\n\n');
+	if (!body) {
+		const html = await readTextParts(htmlParts, loadPart);
+		body = html.length > 0 ? htmlToText(html.join('\n\n')) : '';
+	}
+
+	body = stripSignature(stripQuotedReply(normalizeWhitespace(body)));
+
+	return {
+		body: body.length > MAX_BODY_LENGTH ? body.slice(0, MAX_BODY_LENGTH) : body,
+		attachments,
+	};
+}
+
+/**
+ * Recursively collect text body parts and attachments from a part tree
+ */
+function collectParts(
+	part: GmailMessagePart,
+	plain: GmailMessagePart[],
+	html: GmailMessagePart[],
+	attachments: GmailAttachment[]
+): void {
+	const mimeType = (part.mimeType || '').toLowerCase();
+
+	// Named or explicitly attached parts are attachments. An attachmentId alone isn't
+	// enough - Gmail also moves large text bodies out of the message that way
+	const disposition = getHeader(part, 'content-disposition')?.trim().toLowerCase() ?? '';
+	if (part.filename || disposition.startsWith('attachment')) {
+		attachments.push({
+			filename: part.filename || 'unnamed',
+			mimeType: mimeType || 'application/octet-stream',
+			size: part.body?.size || 0,
+		});
+		return;
+	}
+
+	if (part.parts && part.parts.length > 0) {
+		// multipart/alternative holds the same content in several formats
+		for (const child of part.parts) {
+			collectParts(child, plain, html, attachments);
+		}
+		return;
+	}
+
+	if (!part.body?.data && !part.body?.attachmentId) {
+		return;
+	}
+
+	if (mimeType === 'text/plain') {
+		plain.push(part);
+	} else if (mimeType === 'text/html') {
+		html.push(part);
+	}
+}
+
+/**
+ * Decode text parts, downloading those stored by attachmentId
+ */
+async function readTextParts(parts: GmailMessagePart[], loadPart?: GmailPartLoader): Promise<string[]> {
+	const texts: string[] = [];
+
+	for (const part of parts) {
+		let data = part.body?.data;
+		if (!data && part.body?.attachmentId && loadPart) {
+			data = await loadPart(part.body.attachmentId);
+		}
+		if (data) {
+			texts.push(decodeBase64Url(data, getCharset(part)));
+		}
+	}
+
+	return texts;
+}
+
+/**
+ * Read a header of a part, matched case-insensitively
+ */
+function getHeader(part: GmailMessagePart, name: string): string | undefined {
+	return part.headers?.find((h) => h.name.toLowerCase() === name)?.value;
+}
+
+/**
+ * Read the charset from a part's Content-Type header
+ */
+function getCharset(part: GmailMessagePart): string {
+	const match = getHeader(part, 'content-type')?.match(/charset="?([^";\s]+)"?/i);
+	return match ? match[1].toLowerCase() : 'utf-8';
+}
+
+/**
+ * Decode base64url data as text in the given charset
+ */
+export function decodeBase64Url(data: string, charset: string = 'utf-8'): string {
+	const base64 = data.replace(/-/g, '+').replace(/_/g, '/');
+	const binary = atob(base64);
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) {
+		bytes[i] = binary.charCodeAt(i);
+	}
+
+	try {
+		return new TextDecoder(charset).decode(bytes);
+	} catch (error) {
+		// Unknown charset label
+		return new TextDecoder('utf-8').decode(bytes);
+	}
+}
+
+/**
+ * Convert an HTML body to readable plain text
+ */
+export function htmlToText(html: string): string {
+	return decodeHtmlEntities(
+		html
+			.replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+			// Gmail wraps quoted history in these
+			.replace(/<blockquote[^>]*>[\s\S]*?<\/blockquote>/gi, '')
+			.replace(/<div class="gmail_quote"[\s\S]*$/i, '')
+			.replace(/<br\s*\/?>/gi, '\n')
+			.replace(/<\/(p|div|tr|h[1-6]|li|table)>/gi, '\n')
+			.replace(/<li[^>]*>/gi, '- ')
+			.replace(/<[^>]+>/g, '')
+	);
+}
+
+/**
+ * Decode the HTML entities common in email bodies
+ */
+function decodeHtmlEntities(text: string): string {
+	const named: Record<string, string> = {
+		amp: '&',
+		lt: '<',
+		gt: '>',
+		quot: '"',
+		apos: "'",
+		nbsp: ' ',
+	};
+
+	return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+		if (code[0] === '#') {
+			const value = code[1].toLowerCase() === 'x'
+				? parseInt(code.slice(2), 16)
+				: parseInt(code.slice(1), 10);
+			return isNaN(value) || value > 0x10ffff ? entity : String.fromCodePoint(value);
+		}
+		return named[code.toLowerCase()] ?? entity;
+	});
+}
+
+/**
+ * Remove quoted replies and forwarded history
+ */
+export function stripQuotedReply(text: string): string {
+	const lines = text.split('\n');
+	const kept: string[] = [];
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i].trim();
+
+		// Reply headers: "On Mon, Jan 1, 2026 at 9:00 AM Jane <jane@example.com> wrote:"
+		// (clients sometimes wrap this over two lines)
+		if (
+			/^On .+wrote:$/.test(line) ||
+			(/^On /.test(line) && /wrote:$/.test(lines[i + 1]?.trim() || ''))
+		) {
+			break;
+		}
+
+		// Outlook-style history
+		if (
+			/^-{2,}\s*Original Message\s*-{2,}$/i.test(line) ||
+			(/^From: .+/.test(line) && /^(Sent|Date): /.test(lines[i + 1]?.trim() || ''))
+		) {
+			break;
+		}
+
+		if (line.startsWith('>')) {
+			continue;
+		}
+
+		kept.push(lines[i]);
+	}
+
+	return kept.join('\n').trim();
+}
+
+/**
+ * Remove a trailing signature block
+ * Only the last few lines are searched, so a "--" line in the middle of a message is kept
+ */
+export function stripSignature(text: string): string {
+	const lines = text.split('\n');
+
+	for (let i = Math.max(0, lines.length - MAX_SIGNATURE_LINES); i < lines.length; i++) {
+		const line = lines[i].trimEnd();
+
+		// RFC 3676 signature delimiter and common mobile signatures
+		if (line === '--' || /^Sent from my /i.test(line) || /^Get Outlook for /i.test(line)) {
+			return lines.slice(0, i).join('\n').trim();
+		}
+	}
+
+	return text;
+}
+
+/**
+ * Normalize line endings and collapse runs of blank lines
+ */
+function normalizeWhitespace(text: string): string {
+	return text
+		.replace(/\r\n?/g, '\n')
+		.replace(/[ \t\u00a0]+\n/g, '\n')
+		.replace(/\n{3,}/g, '\n\n')
+		.trim();
+}
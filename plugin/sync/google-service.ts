@@ -3,9 +3,11 @@
  * Handles Gmail, Calendar, and Drive
  */
 
-import { BaseSyncService } from './base-service';
-import { SyncResult, FetchedDataItem, OAuthConfig } from './types';
+import { BaseSyncService, SyncCancelledError } from './base-service';
+import { SyncResult, FetchedDataItem, FetchedPage, OAuthConfig } from './types';
 import { refreshOAuthTokens } from './oauth-helper';
+import { HttpError } from './http-client';
+import { GmailMessagePart, parseGmailPayload } from './gmail-parser';
 
 /**
  * Google OAuth configuration
@@ -21,18 +23,27 @@ export const GOOGLE_OAUTH_CONFIG: Partial<OAuthConfig> = {
 	redirectUri: 'http://localhost:8080/callback', // Will be dynamic in desktop flow
 };
 
+/**
+ * Endpoint used to check that stored tokens still work
+ */
+export const GOOGLE_VALIDATION_URL = 'https://gmail.googleapis.com/gmail/v1/users/me/profile';
+
+/**
+ * Messages fetched and cached together when catching up from a historyId
+ */
+const GMAIL_HISTORY_PAGE_SIZE = 100;
+
 /**
  * Gmail message
  */
 interface GmailMessage {
 	id: string;
 	threadId: string;
+	labelIds?: string[];
 	snippet: string;
 	internalDate: string;
-	payload: {
+	payload: GmailMessagePart & {
 		headers: Array<{ name: string; value: string }>;
-		body?: { data?: string };
-		parts?: Array<{ body?: { data?: string } }>;
 	};
 }
 
@@ -41,6 +52,7 @@ interface GmailMessage {
  */
 interface CalendarEvent {
 	id: string;
+	status?: string; // 'cancelled' for deleted events in incremental results
 	summary: string;
 	description?: string;
 	start: { dateTime?: string; date?: string };
@@ -53,13 +65,11 @@ interface CalendarEvent {
  * Google service
  */
 export class GoogleService extends BaseSyncService {
-	private clientId: string;
-	private clientSecret: string;
+	private oauthConfig: OAuthConfig;
 
-	constructor(clientId: string, clientSecret: string) {
+	constructor(oauthConfig: OAuthConfig) {
 		super('google');
-		this.clientId = clientId;
-		this.clientSecret = clientSecret;
+		this.oauthConfig = oauthConfig;
 	}
 
 	/**
@@ -70,15 +80,9 @@ export class GoogleService extends BaseSyncService {
 			throw new Error('No refresh token available');
 		}
 
-		const config: OAuthConfig = {
-			...GOOGLE_OAUTH_CONFIG,
-			clientId: this.clientId,
-			clientSecret: this.clientSecret,
-		} as OAuthConfig;
-
 		const newTokens = await refreshOAuthTokens(
 			this.tokens.refresh_token,
-			config
+			this.oauthConfig
 		);
 
 		this.setTokens(newTokens);
@@ -88,208 +92,454 @@ export class GoogleService extends BaseSyncService {
 	 * Perform sync for all Google services
 	 */
 	protected async performSync(): Promise<Partial<SyncResult>> {
+		// Added/updated/unchanged counts come from the cache writes
 		const result: Partial<SyncResult> = {
 			itemsProcessed: 0,
-			itemsAdded: 0,
-			itemsUpdated: 0,
 		};
 
 		// Sync Gmail
-		const gmailItems = await this.syncGmail();
-		result.itemsProcessed! += gmailItems.length;
-		result.itemsAdded! += gmailItems.length;
+		if (!this.isExcluded('email')) {
+			result.itemsProcessed! += await this.syncGmail();
+		}
 
 		// Sync Calendar
-		const calendarItems = await this.syncCalendar();
-		result.itemsProcessed! += calendarItems.length;
-		result.itemsAdded! += calendarItems.length;
+		if (!this.isExcluded('calendar_event')) {
+			result.itemsProcessed! += await this.syncCalendar();
+		}
 
 		// Sync Drive (basic metadata only)
-		const driveItems = await this.syncDrive();
-		result.itemsProcessed! += driveItems.length;
-		result.itemsAdded! += driveItems.length;
+		if (!this.isExcluded('drive_file')) {
+			result.itemsProcessed! += await this.syncDrive();
+		}
 
 		return result;
 	}
 
 	/**
 	 * Fetch data from Google services
+	 * Each page is cached as it arrives and then dropped, so nothing is returned
 	 */
 	protected async fetchData(since?: number): Promise<FetchedDataItem[]> {
-		const items: FetchedDataItem[] = [];
-
-		items.push(...(await this.syncGmail(since)));
-		items.push(...(await this.syncCalendar(since)));
-		items.push(...(await this.syncDrive(since)));
+		await this.syncGmail(since);
+		await this.syncCalendar(since);
+		await this.syncDrive(since);
 
-		return items;
+		return [];
 	}
 
 	/**
 	 * Sync Gmail messages
+	 * Uses the stored historyId to fetch only newly added messages when possible,
+	 * otherwise pages through the mailbox within the backfill limit
+	 * Returns the number of messages fetched
 	 */
-	private async syncGmail(since?: number): Promise<FetchedDataItem[]> {
-		const items: FetchedDataItem[] = [];
+	private async syncGmail(since?: number): Promise<number> {
+		let itemsFetched = 0;
+		const cursor = await this.getCursor('email');
+
+		// Record the mailbox position before listing so nothing added meanwhile is missed
+		const profileResponse = await this.makeRequest(
+			'https://gmail.googleapis.com/gmail/v1/users/me/profile'
+		);
+		const profile = await profileResponse.json();
+		let historyId: string | undefined = profile.historyId ? String(profile.historyId) : cursor?.cursor;
+
+		let lastTimestamp = cursor?.lastTimestamp || 0;
 
-		// Build query
+		// Messages that failed to fetch are retried next time, since the historyId moves past them
+		const failedIds = new Set<string>();
+		let retrying = false;
+
+		// Fetch full message details
+		const fetchMessages = async (messageIds: string[]) => {
+			const items: FetchedDataItem[] = [];
+
+			for (const messageId of messageIds) {
+				try {
+					const msgUrl = `https://gmail.googleapis.com/gmail/v1/users/me/messages/${messageId}`;
+					const msgResponse = await this.makeRequest(msgUrl);
+					const message: GmailMessage = await msgResponse.json();
+
+					// Extract headers
+					const headers = message.payload.headers;
+					const from = headers.find((h) => h.name === 'From')?.value || '';
+					const to = headers.find((h) => h.name === 'To')?.value || '';
+					const subject = headers.find((h) => h.name === 'Subject')?.value || '';
+					const date = headers.find((h) => h.name === 'Date')?.value || '';
+					const cc = headers.find((h) => h.name === 'Cc')?.value || '';
+					const timestamp = parseInt(message.internalDate);
+
+					// Decode the full body and note attachments
+					const { body, attachments } = await parseGmailPayload(message.payload, (attachmentId) =>
+						this.fetchMessagePart(message.id, attachmentId)
+					);
+
+					items.push({
+						id: message.id,
+						type: 'email',
+						source: 'google',
+						data: {
+							id: message.id,
+							threadId: message.threadId,
+							from,
+							to,
+							cc,
+							subject,
+							date,
+							labelIds: message.labelIds || [],
+							fromMe: (message.labelIds || []).includes('SENT'),
+							snippet: message.snippet,
+							body,
+							attachments,
+							timestamp,
+						},
+						timestamp,
+					});
+
+					lastTimestamp = Math.max(lastTimestamp, timestamp);
+				} catch (error) {
+					if (error instanceof SyncCancelledError) {
+						throw error;
+					}
+					// A message deleted since it was listed never comes back
+					if (error instanceof HttpError && error.status === 404) {
+						continue;
+					}
+					console.error(`Failed to fetch message ${messageId}:`, error);
+					failedIds.add(messageId);
+				}
+			}
+
+			// Cache the whole page in one transaction
+			await this.cacheData(items);
+			itemsFetched += items.length;
+
+			// Saved as they happen so an interrupted backfill keeps them (the stored list
+			// still holds the earlier failures until they have all been retried)
+			if (failedIds.size > 0 && !retrying) {
+				await this.saveCursor('email', { failedIds: Array.from(failedIds) });
+			}
+		};
+
+		const retryIds = cursor?.failedIds ?? [];
+		if (retryIds.length > 0) {
+			console.log(`Retrying ${retryIds.length} Gmail message(s) that failed to fetch`);
+			retrying = true;
+			for (let i = 0; i < retryIds.length; i += GMAIL_HISTORY_PAGE_SIZE) {
+				await fetchMessages(retryIds.slice(i, i + GMAIL_HISTORY_PAGE_SIZE));
+			}
+			retrying = false;
+		}
+
+		let messageIds: string[] | null = null;
+		if (!since && cursor?.cursor && !cursor.backfill) {
+			messageIds = await this.listGmailHistory(cursor.cursor);
+		}
+
+		if (messageIds !== null) {
+			// Cached in pages like a full listing, however long the history
+			for (let i = 0; i < messageIds.length; i += GMAIL_HISTORY_PAGE_SIZE) {
+				await fetchMessages(messageIds.slice(i, i + GMAIL_HISTORY_PAGE_SIZE));
+			}
+		} else {
+			// Initial sync, expired historyId or unfinished backfill: page through the mailbox
+			if (cursor?.backfill?.params.historyId) {
+				// Pick up changes made since the backfill started
+				historyId = cursor.backfill.params.historyId;
+			}
+
+			await this.fetchPaginated(
+				(pageToken, params) => this.listGmailMessagesPage(params.q, pageToken),
+				{
+					checkpointKey: 'email',
+					maxItems: this.backfillLimit.maxItems,
+					params: {
+						q: this.buildGmailQuery(since ?? (cursor?.lastTimestamp || this.getBackfillStart())),
+						historyId: historyId || '',
+					},
+					onPage: fetchMessages,
+				}
+			);
+		}
+
+		await this.saveCursor('email', { cursor: historyId, lastTimestamp, failedIds: Array.from(failedIds) });
+
+		return itemsFetched;
+	}
+
+	/**
+	 * Download a message part Gmail returns only by attachmentId (e.g. a large text body)
+	 */
+	private async fetchMessagePart(messageId: string, attachmentId: string): Promise<string | undefined> {
+		const response = await this.makeRequest(
+			`https://gmail.googleapis.com/gmail/v1/users/me/messages/${messageId}/attachments/${encodeURIComponent(attachmentId)}`
+		);
+		const data = await response.json();
+		return data.data;
+	}
+
+	/**
+	 * Build the Gmail search query, optionally only after a date
+	 */
+	private buildGmailQuery(since?: number): string {
 		let query = 'in:inbox OR in:sent';
 		if (since) {
 			const sinceDate = new Date(since);
 			const afterDate = sinceDate.toISOString().split('T')[0].replace(/-/g, '/');
 			query += ` after:${afterDate}`;
 		}
+		return query;
+	}
 
-		// List messages (get IDs)
-		const listUrl = `https://gmail.googleapis.com/gmail/v1/users/me/messages?q=${encodeURIComponent(
+	/**
+	 * List one page of message IDs matching a query
+	 */
+	private async listGmailMessagesPage(
+		query: string,
+		pageToken?: string
+	): Promise<FetchedPage<string>> {
+		let listUrl = `https://gmail.googleapis.com/gmail/v1/users/me/messages?q=${encodeURIComponent(
 			query
-		)}&maxResults=100`;
+		)}&maxResults=500`;
+
+		if (pageToken) {
+			listUrl += `&pageToken=${encodeURIComponent(pageToken)}`;
+		}
 
 		const listResponse = await this.makeRequest(listUrl);
 		const listData = await listResponse.json();
 
-		if (!listData.messages || listData.messages.length === 0) {
-			return items;
+		return {
+			items: (listData.messages || []).map((msg: { id: string }) => msg.id),
+			nextPageToken: listData.nextPageToken,
+			totalItems: listData.resultSizeEstimate,
+		};
+	}
+
+	/**
+	 * List message IDs added since a historyId
+	 * Returns null if the historyId is too old and a full listing is needed
+	 */
+	private async listGmailHistory(startHistoryId: string): Promise<string[] | null> {
+		let records: any[];
+		try {
+			records = await this.fetchPaginated(async (pageToken) => {
+				let url = `https://gmail.googleapis.com/gmail/v1/users/me/history?startHistoryId=${encodeURIComponent(
+					startHistoryId
+				)}&historyTypes=messageAdded`;
+
+				if (pageToken) {
+					url += `&pageToken=${encodeURIComponent(pageToken)}`;
+				}
+
+				const response = await this.makeRequest(url);
+				const data = await response.json();
+				return { items: data.history || [], nextPageToken: data.nextPageToken };
+			});
+		} catch (error) {
+			// Gmail answers 404 once a historyId has expired
+			if (error instanceof HttpError && error.status === 404) {
+				return null;
+			}
+			throw error;
 		}
 
-		// Fetch full message details
-		for (const msg of listData.messages.slice(0, 50)) {
-			// Limit to 50 for now
-			try {
-				const msgUrl = `https://gmail.googleapis.com/gmail/v1/users/me/messages/${msg.id}`;
-				const msgResponse = await this.makeRequest(msgUrl);
-				const message: GmailMessage = await msgResponse.json();
+		const messageIds = new Set<string>();
+		for (const record of records) {
+			for (const added of record.messagesAdded || []) {
+				messageIds.add(added.message.id);
+			}
+		}
+
+		return Array.from(messageIds);
+	}
+
+	/**
+	 * Sync Google Calendar events
+	 * Uses the stored syncToken to fetch only changed events when possible
+	 * Returns the number of events fetched
+	 */
+	private async syncCalendar(since?: number): Promise<number> {
+		let itemsFetched = 0;
+		const cursor = await this.getCursor('calendar_event');
 
-				// Extract headers
-				const headers = message.payload.headers;
-				const from = headers.find((h) => h.name === 'From')?.value || '';
-				const to = headers.find((h) => h.name === 'To')?.value || '';
-				const subject = headers.find((h) => h.name === 'Subject')?.value || '';
-				const date = headers.find((h) => h.name === 'Date')?.value || '';
+		let lastTimestamp = cursor?.lastTimestamp || 0;
+		let nextSyncToken: string | undefined;
+
+		const processEvents = async (events: CalendarEvent[]) => {
+			const items: FetchedDataItem[] = [];
+
+			for (const event of events) {
+				// Incremental results include deleted events
+				if (event.status === 'cancelled') {
+					continue;
+				}
+
+				const startTime = event.start.dateTime || event.start.date || '';
+				const endTime = event.end.dateTime || event.end.date || '';
+				const timestamp = new Date(startTime).getTime();
 
 				items.push({
-					id: message.id,
-					type: 'email',
+					id: event.id,
+					type: 'calendar_event',
 					source: 'google',
 					data: {
-						id: message.id,
-						threadId: message.threadId,
-						from,
-						to,
-						subject,
-						date,
-						snippet: message.snippet,
-						timestamp: parseInt(message.internalDate),
+						id: event.id,
+						summary: event.summary,
+						description: event.description,
+						start: startTime,
+						end: endTime,
+						attendees: event.attendees,
+						organizer: event.organizer,
 					},
-					timestamp: parseInt(message.internalDate),
+					timestamp,
 				});
 
-				// Cache the item
-				await this.cacheData([items[items.length - 1]]);
-			} catch (error) {
-				console.error(`Failed to fetch message ${msg.id}:`, error);
+				lastTimestamp = Math.max(lastTimestamp, timestamp);
 			}
-		}
 
-		return items;
-	}
+			// Cache the whole page in one transaction
+			await this.cacheData(items);
+			itemsFetched += items.length;
+		};
 
-	/**
-	 * Sync Google Calendar events
-	 */
-	private async syncCalendar(since?: number): Promise<FetchedDataItem[]> {
-		const items: FetchedDataItem[] = [];
-
-		// Get primary calendar events
-		const now = new Date();
-		const timeMin = since
-			? new Date(since).toISOString()
-			: new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000).toISOString(); // 30 days ago
-		const timeMax = new Date(
-			now.getTime() + 90 * 24 * 60 * 60 * 1000
-		).toISOString(); // 90 days ahead
-
-		const url = `https://www.googleapis.com/calendar/v3/calendars/primary/events?timeMin=${encodeURIComponent(
-			timeMin
-		)}&timeMax=${encodeURIComponent(timeMax)}&maxResults=100&singleEvents=true&orderBy=startTime`;
-
-		const response = await this.makeRequest(url);
-		const data = await response.json();
+		// The last page of a listing carries the token for the next incremental sync
+		const fetchEventsPage = async (
+			pageToken: string | undefined,
+			params: Record<string, string>
+		): Promise<FetchedPage<CalendarEvent>> => {
+			const query = new URLSearchParams({ ...params, maxResults: '250', singleEvents: 'true' });
+			if (pageToken) {
+				query.set('pageToken', pageToken);
+			}
+
+			const response = await this.makeRequest(
+				`https://www.googleapis.com/calendar/v3/calendars/primary/events?${query.toString()}`
+			);
+			const data = await response.json();
+
+			if (data.nextSyncToken) {
+				nextSyncToken = data.nextSyncToken;
+			}
 
-		if (!data.items || data.items.length === 0) {
-			return items;
+			return { items: data.items || [], nextPageToken: data.nextPageToken };
+		};
+
+		let synced = false;
+		if (!since && cursor?.cursor && !cursor.backfill) {
+			try {
+				await this.fetchPaginated(fetchEventsPage, {
+					params: { syncToken: cursor.cursor },
+					onPage: processEvents,
+				});
+				synced = true;
+			} catch (error) {
+				// Calendar answers 410 Gone once a syncToken is invalidated
+				if (!(error instanceof HttpError && error.status === 410)) {
+					throw error;
+				}
+			}
 		}
 
-		for (const event of data.items as CalendarEvent[]) {
-			const startTime = event.start.dateTime || event.start.date || '';
-			const endTime = event.end.dateTime || event.end.date || '';
+		if (!synced) {
+			// Get primary calendar events within the backfill window
+			const now = new Date();
+			const start = since ?? this.getBackfillStart();
+			const params: Record<string, string> = {
+				timeMax: new Date(now.getTime() + 90 * 24 * 60 * 60 * 1000).toISOString(), // 90 days ahead
+			};
+			if (start) {
+				params.timeMin = new Date(start).toISOString();
+			}
 
-			items.push({
-				id: event.id,
-				type: 'calendar_event',
-				source: 'google',
-				data: {
-					id: event.id,
-					summary: event.summary,
-					description: event.description,
-					start: startTime,
-					end: endTime,
-					attendees: event.attendees,
-					organizer: event.organizer,
-				},
-				timestamp: new Date(startTime).getTime(),
+			// No orderBy: it prevents Google from returning a syncToken. Pages past the
+			// backfill limit are still read, since only the last one carries the syncToken
+			await this.fetchPaginated(fetchEventsPage, {
+				checkpointKey: 'calendar_event',
+				maxItems: this.backfillLimit.maxItems,
+				readToLastPage: true,
+				params,
+				onPage: processEvents,
 			});
-
-			// Cache the item
-			await this.cacheData([items[items.length - 1]]);
 		}
 
-		return items;
+		await this.saveCursor('calendar_event', {
+			cursor: nextSyncToken || cursor?.cursor,
+			lastTimestamp,
+		});
+
+		return itemsFetched;
 	}
 
 	/**
 	 * Sync Google Drive files (metadata only)
+	 * Returns the number of files fetched
 	 */
-	private async syncDrive(since?: number): Promise<FetchedDataItem[]> {
-		const items: FetchedDataItem[] = [];
+	private async syncDrive(since?: number): Promise<number> {
+		let itemsFetched = 0;
+		const cursor = await this.getCursor('drive_file');
+		const modifiedAfter = since ?? (cursor?.lastTimestamp || this.getBackfillStart());
 
 		// Build query for recently modified files
 		let query = "trashed=false and 'me' in owners";
-		if (since) {
-			const sinceDate = new Date(since).toISOString();
+		if (modifiedAfter) {
+			const sinceDate = new Date(modifiedAfter).toISOString();
 			query += ` and modifiedTime > '${sinceDate}'`;
 		}
 
-		const url = `https://www.googleapis.com/drive/v3/files?q=${encodeURIComponent(
-			query
-		)}&fields=files(id,name,mimeType,modifiedTime,owners,webViewLink)&orderBy=modifiedTime desc&pageSize=100`;
-
-		const response = await this.makeRequest(url);
-		const data = await response.json();
-
-		if (!data.files || data.files.length === 0) {
-			return items;
-		}
-
-		for (const file of data.files) {
-			items.push({
-				id: file.id,
-				type: 'drive_file',
-				source: 'google',
-				data: {
-					id: file.id,
-					name: file.name,
-					mimeType: file.mimeType,
-					modifiedTime: file.modifiedTime,
-					owners: file.owners,
-					webViewLink: file.webViewLink,
+		let lastTimestamp = cursor?.lastTimestamp || 0;
+
+		await this.fetchPaginated(
+			async (pageToken, params) => {
+				let url = `https://www.googleapis.com/drive/v3/files?q=${encodeURIComponent(
+					params.q
+				)}&fields=nextPageToken,files(id,name,mimeType,modifiedTime,owners,webViewLink)&orderBy=modifiedTime desc&pageSize=100`;
+
+				if (pageToken) {
+					url += `&pageToken=${encodeURIComponent(pageToken)}`;
+				}
+
+				const response = await this.makeRequest(url);
+				const data = await response.json();
+				return { items: data.files || [], nextPageToken: data.nextPageToken };
+			},
+			{
+				checkpointKey: 'drive_file',
+				maxItems: this.backfillLimit.maxItems,
+				params: { q: query },
+				onPage: async (files: any[]) => {
+					const items: FetchedDataItem[] = [];
+
+					for (const file of files) {
+						const timestamp = new Date(file.modifiedTime).getTime();
+
+						items.push({
+							id: file.id,
+							type: 'drive_file',
+							source: 'google',
+							data: {
+								id: file.id,
+								name: file.name,
+								mimeType: file.mimeType,
+								modifiedTime: file.modifiedTime,
+								owners: file.owners,
+								webViewLink: file.webViewLink,
+							},
+							timestamp,
+						});
+
+						lastTimestamp = Math.max(lastTimestamp, timestamp);
+					}
+
+					// Cache the whole page in one transaction
+					await this.cacheData(items);
+					itemsFetched += items.length;
 				},
-				timestamp: new Date(file.modifiedTime).getTime(),
-			});
+			}
+		);
 
-			// Cache the item
-			await this.cacheData([items[items.length - 1]]);
-		}
+		await this.saveCursor('drive_file', { lastTimestamp });
 
-		return items;
+		return itemsFetched;
 	}
 }
@@ -0,0 +1,370 @@
+/**
+ * Shared HTTP client for sync services
+ * Applies per-provider rate limits, retries with backoff and token refresh on 401
+ */
+
+import { getHttpTransport } from './http-transport';
+import {
+	DataSource,
+	HttpRequest,
+	HttpResponse,
+	HttpTransport,
+	RateLimitConfig,
+	SyncErrorType,
+} from './types';
+
+/**
+ * Requests per provider, shared by every client for that provider
+ * YNAB allows 200 requests per hour per token
+ */
+export const PROVIDER_RATE_LIMITS: Record<DataSource, RateLimitConfig> = {
+	google: { capacity: 20, refillPerSecond: 10 },
+	spotify: { capacity: 10, refillPerSecond: 3 },
+	ynab: { capacity: 20, refillPerSecond: 200 / 3600 },
+};
+
+/**
+ * Limit for registered sources that don't declare their own
+ */
+const DEFAULT_RATE_LIMIT: RateLimitConfig = { capacity: 10, refillPerSecond: 5 };
+
+/**
+ * Non-OK HTTP response
+ */
+export class HttpError extends Error {
+	status: number;
+	body: string;
+
+	constructor(status: number, body: string, message?: string) {
+		super(message || `API request failed (${status}): ${body}`);
+		this.name = 'HttpError';
+		this.status = status;
+		this.body = body;
+	}
+}
+
+/**
+ * Credentials were rejected, even after a token refresh
+ */
+export class AuthError extends HttpError {
+	constructor(status: number, body: string) {
+		super(status, body, `Authentication failed (${status}): ${body}`);
+		this.name = 'AuthError';
+	}
+}
+
+/**
+ * Provider kept throttling requests after all retries
+ */
+export class RateLimitError extends HttpError {
+	retryAfterMs?: number;
+
+	constructor(status: number, body: string, retryAfterMs?: number) {
+		super(status, body, `Rate limited (${status}): ${body}`);
+		this.name = 'RateLimitError';
+		this.retryAfterMs = retryAfterMs;
+	}
+}
+
+/**
+ * Request never got a response (offline, DNS, connection reset)
+ */
+export class NetworkError extends Error {
+	cause?: unknown;
+
+	constructor(message: string, cause?: unknown) {
+		super(`Network error: ${message}`);
+		this.name = 'NetworkError';
+		this.cause = cause;
+	}
+}
+
+/**
+ * A wait between attempts was cut short because the request was cancelled
+ */
+export class RequestAbortedError extends Error {
+	constructor() {
+		super('Request aborted');
+		this.name = 'RequestAbortedError';
+	}
+}
+
+/**
+ * Error codes and messages of requests that never reached the server or got no answer
+ */
+const NETWORK_FAILURE_PATTERN =
+	/net::ERR_|ECONNRESET|ECONNREFUSED|ECONNABORTED|ENOTFOUND|ETIMEDOUT|EAI_AGAIN|ENETUNREACH|EHOSTUNREACH|EPIPE|socket hang up/i;
+
+/**
+ * Whether a transport error is a network failure rather than a bug or a missing fixture
+ * fetch rejects with a TypeError, requestUrl with the underlying net:: or socket error
+ */
+export function isNetworkFailure(error: unknown): boolean {
+	if (error instanceof NetworkError) {
+		return true;
+	}
+	if (!(error instanceof Error)) {
+		return false;
+	}
+	if (error instanceof TypeError) {
+		return /failed to fetch|fetch failed|load failed|networkerror|network request failed/i.test(error.message);
+	}
+
+	const code = 'code' in error ? String(error.code) : '';
+	return NETWORK_FAILURE_PATTERN.test(error.message) || NETWORK_FAILURE_PATTERN.test(code);
+}
+
+/**
+ * Classify an error for the sync status
+ */
+export function getSyncErrorType(error: unknown): SyncErrorType {
+	if (error instanceof AuthError) return 'auth';
+	if (error instanceof RateLimitError) return 'rate_limit';
+	if (error instanceof NetworkError) return 'network';
+	if (error instanceof HttpError) return 'http';
+	return 'unknown';
+}
+
+/**
+ * Token bucket limiting how fast requests are sent
+ */
+export class TokenBucket {
+	private tokens: number;
+	private lastRefill: number;
+
+	constructor(private config: RateLimitConfig) {
+		this.tokens = config.capacity;
+		this.lastRefill = Date.now();
+	}
+
+	/**
+	 * Wait until a token is available, then take it
+	 */
+	async take(signal?: AbortSignal): Promise<void> {
+		while (true) {
+			this.refill();
+
+			if (this.tokens >= 1) {
+				this.tokens -= 1;
+				return;
+			}
+
+			const waitMs = ((1 - this.tokens) / this.config.refillPerSecond) * 1000;
+			await sleep(Math.ceil(waitMs), signal);
+		}
+	}
+
+	/**
+	 * Add tokens earned since the last refill
+	 */
+	private refill(): void {
+		const now = Date.now();
+		const earned = ((now - this.lastRefill) / 1000) * this.config.refillPerSecond;
+		this.tokens = Math.min(this.config.capacity, this.tokens + earned);
+		this.lastRefill = now;
+	}
+}
+
+const buckets = new Map<DataSource, TokenBucket>();
+
+/**
+ * Get the shared bucket for a provider
+ */
+function getBucket(provider: DataSource): TokenBucket {
+	let bucket = buckets.get(provider);
+	if (!bucket) {
+		bucket = new TokenBucket(PROVIDER_RATE_LIMITS[provider] ?? DEFAULT_RATE_LIMIT);
+		buckets.set(provider, bucket);
+	}
+	return bucket;
+}
+
+/**
+ * Set the rate limit for a provider, replacing its bucket
+ */
+export function setProviderRateLimit(provider: DataSource, config: RateLimitConfig): void {
+	PROVIDER_RATE_LIMITS[provider] = config;
+	buckets.delete(provider);
+}
+
+/**
+ * Options for HttpClient
+ */
+export interface HttpClientOptions {
+	maxRetries?: number;
+	baseDelayMs?: number; // First backoff delay, doubled on each retry
+	maxDelayMs?: number; // Longest single wait, including Retry-After
+	getAccessToken?: () => string | undefined; // Sent as a Bearer token when set
+	onUnauthorized?: () => Promise<boolean>; // Refresh credentials; true to retry once
+	getSignal?: () => AbortSignal | undefined; // Cancels waits for the rate limit and between retries
+	transport?: HttpTransport; // Defaults to the shared transport
+}
+
+/**
+ * HTTP client for one provider
+ */
+export class HttpClient {
+	private provider: DataSource;
+	private maxRetries: number;
+	private baseDelayMs: number;
+	private maxDelayMs: number;
+	private getAccessToken?: () => string | undefined;
+	private onUnauthorized?: () => Promise<boolean>;
+	private getSignal?: () => AbortSignal | undefined;
+	private transport?: HttpTransport;
+
+	constructor(provider: DataSource, options: HttpClientOptions = {}) {
+		this.provider = provider;
+		this.maxRetries = options.maxRetries ?? 4;
+		this.baseDelayMs = options.baseDelayMs ?? 1000;
+		this.maxDelayMs = options.maxDelayMs ?? 60 * 1000;
+		this.getAccessToken = options.getAccessToken;
+		this.onUnauthorized = options.onUnauthorized;
+		this.getSignal = options.getSignal;
+		this.transport = options.transport;
+	}
+
+	/**
+	 * Send a request, retrying throttled and failed attempts
+	 * Rejects with RequestAbortedError as soon as the signal aborts during a wait
+	 */
+	async request(url: string, options: Omit<HttpRequest, 'url'> = {}): Promise<HttpResponse> {
+		const transport = this.transport ?? getHttpTransport();
+		const signal = this.getSignal?.();
+		let attempt = 0;
+		let refreshed = false;
+
+		while (true) {
+			if (signal?.aborted) {
+				throw new RequestAbortedError();
+			}
+
+			await getBucket(this.provider).take(signal);
+
+			const headers: Record<string, string> = { ...options.headers };
+			const accessToken = this.getAccessToken?.();
+			if (accessToken) {
+				headers['Authorization'] = `Bearer ${accessToken}`;
+			}
+
+			let response: HttpResponse;
+			try {
+				response = await transport.request({ ...options, url, headers });
+			} catch (error) {
+				// Bugs and missing replay fixtures fail the same way on every attempt
+				if (!isNetworkFailure(error)) {
+					throw error;
+				}
+				if (attempt < this.maxRetries) {
+					await sleep(this.getBackoffDelay(attempt++), signal);
+					continue;
+				}
+				const message = error instanceof Error ? error.message : String(error);
+				throw new NetworkError(message, error);
+			}
+
+			if (response.ok) {
+				return response;
+			}
+
+			const body = await response.text();
+
+			if (response.status === 401) {
+				// Access token may have been revoked or expired early - refresh once
+				if (!refreshed && this.onUnauthorized && (await this.onUnauthorized())) {
+					refreshed = true;
+					continue;
+				}
+				throw new AuthError(response.status, body);
+			}
+
+			if (this.isRateLimited(response.status, body)) {
+				const retryAfterMs = parseRetryAfter(response.headers['retry-after'] ?? null);
+
+				// Don't block a sync for longer than maxDelayMs - report it instead
+				if (attempt >= this.maxRetries || (retryAfterMs ?? 0) > this.maxDelayMs) {
+					throw new RateLimitError(response.status, body, retryAfterMs);
+				}
+
+				const delay = retryAfterMs ?? this.getBackoffDelay(attempt);
+				console.log(`${this.provider} rate limited (${response.status}), retrying in ${delay}ms`);
+				attempt++;
+				await sleep(delay, signal);
+				continue;
+			}
+
+			if (response.status === 403) {
+				throw new AuthError(response.status, body);
+			}
+
+			if (response.status >= 500 && attempt < this.maxRetries) {
+				await sleep(this.getBackoffDelay(attempt++), signal);
+				continue;
+			}
+
+			throw new HttpError(response.status, body);
+		}
+	}
+
+	/**
+	 * Whether a response means "slow down"
+	 * Google reports per-user quota errors as 403 with a rateLimitExceeded reason
+	 */
+	private isRateLimited(status: number, body: string): boolean {
+		if (status === 429 || status === 503) {
+			return true;
+		}
+		return status === 403 && /rateLimitExceeded/i.test(body);
+	}
+
+	/**
+	 * Exponential backoff with full jitter
+	 */
+	private getBackoffDelay(attempt: number): number {
+		const ceiling = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+		return Math.round(Math.random() * ceiling);
+	}
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+	if (!header) {
+		return undefined;
+	}
+
+	const seconds = Number(header);
+	if (!isNaN(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+
+	const date = Date.parse(header);
+	if (!isNaN(date)) {
+		return Math.max(0, date - Date.now());
+	}
+
+	return undefined;
+}
+
+/**
+ * Wait, rejecting early if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(new RequestAbortedError());
+			return;
+		}
+
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(new RequestAbortedError());
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
@@ -0,0 +1,243 @@
+/**
+ * HTTP transports
+ * Every outgoing request (sync APIs, OAuth token endpoints, Claude) goes through one of these
+ */
+
+import { requestUrl } from 'obsidian';
+import { HttpRequest, HttpResponse, HttpTransport, RecordReplayOptions } from './types';
+
+/**
+ * Build a response from a status, headers and body text
+ */
+export function createHttpResponse(
+	status: number,
+	headers: Record<string, string>,
+	body: string
+): HttpResponse {
+	// Header names are case-insensitive - normalize to lowercase
+	const normalized: Record<string, string> = {};
+	for (const [name, value] of Object.entries(headers)) {
+		normalized[name.toLowerCase()] = value;
+	}
+
+	return {
+		status,
+		ok: status >= 200 && status < 300,
+		headers: normalized,
+		text: async () => body,
+		json: async () => JSON.parse(body),
+	};
+}
+
+/**
+ * Transport using Obsidian's requestUrl, which bypasses CORS on desktop and mobile
+ */
+export class RequestUrlTransport implements HttpTransport {
+	async request(request: HttpRequest): Promise<HttpResponse> {
+		const response = await requestUrl({
+			url: request.url,
+			method: request.method || 'GET',
+			headers: request.headers,
+			body: request.body,
+			throw: false,
+		});
+
+		return createHttpResponse(response.status, response.headers, response.text);
+	}
+}
+
+/**
+ * Transport using the global fetch
+ */
+export class FetchTransport implements HttpTransport {
+	async request(request: HttpRequest): Promise<HttpResponse> {
+		const response = await fetch(request.url, {
+			method: request.method || 'GET',
+			headers: request.headers,
+			body: request.body,
+		});
+
+		const headers: Record<string, string> = {};
+		response.headers.forEach((value, name) => {
+			headers[name] = value;
+		});
+
+		return createHttpResponse(response.status, headers, await response.text());
+	}
+}
+
+/**
+ * Form and JSON fields that carry credentials
+ * Their values are replaced in fixtures and left out of fixture keys
+ */
+const SECRET_FIELDS = new Set(['access_token', 'refresh_token', 'id_token', 'client_secret', 'code_verifier']);
+
+/**
+ * Form fields that are also secret - in JSON, `code` is usually an error code worth keeping
+ */
+const SECRET_FORM_FIELDS = new Set([...Array.from(SECRET_FIELDS), 'code']);
+
+/**
+ * Value written in place of a secret
+ */
+const REDACTED = '[REDACTED]';
+
+/**
+ * Recorded request/response pair stored as one JSON file
+ */
+interface HttpFixture {
+	request: { method: string; url: string; body?: string };
+	response: { status: number; headers: Record<string, string>; body: string };
+}
+
+/**
+ * Transport that records live responses to fixture files, or replays them offline
+ * Request headers are never written, and token, secret and authorization code fields are
+ * redacted from request and response bodies (URLs are written as requested)
+ * Desktop only (uses Node's fs)
+ */
+export class RecordReplayTransport implements HttpTransport {
+	private options: RecordReplayOptions;
+	private inner: HttpTransport;
+
+	constructor(options: RecordReplayOptions, inner: HttpTransport = new RequestUrlTransport()) {
+		this.options = options;
+		this.inner = inner;
+	}
+
+	async request(request: HttpRequest): Promise<HttpResponse> {
+		const fs = require('fs');
+		const path = require('path');
+
+		const key = this.getFixtureKey(request);
+		const file = path.join(this.options.fixturesDir, `${key}.json`);
+
+		if (this.options.mode === 'replay') {
+			if (!fs.existsSync(file)) {
+				throw new Error(`No fixture for ${request.method || 'GET'} ${request.url} (expected ${file})`);
+			}
+
+			const fixture: HttpFixture = JSON.parse(fs.readFileSync(file, 'utf8'));
+			return createHttpResponse(
+				fixture.response.status,
+				fixture.response.headers,
+				fixture.response.body
+			);
+		}
+
+		const response = await this.inner.request(request);
+		const body = await response.text();
+
+		const fixture: HttpFixture = {
+			request: {
+				method: request.method || 'GET',
+				url: this.normalizeUrl(request.url),
+				body: request.body === undefined ? undefined : redactSecrets(request.body),
+			},
+			response: { status: response.status, headers: response.headers, body: redactSecrets(body) },
+		};
+
+		fs.mkdirSync(this.options.fixturesDir, { recursive: true });
+		fs.writeFileSync(file, JSON.stringify(fixture, null, 2));
+
+		return createHttpResponse(response.status, response.headers, body);
+	}
+
+	/**
+	 * File name for a request: readable host/path prefix plus a hash of the full request
+	 * Secrets are hashed as redacted, so fixtures still match after tokens rotate
+	 */
+	private getFixtureKey(request: HttpRequest): string {
+		const crypto = require('crypto');
+		const method = request.method || 'GET';
+		const url = this.normalizeUrl(request.url);
+
+		const hash = crypto
+			.createHash('sha1')
+			.update(`${method} ${url}\n${redactSecrets(request.body || '')}`)
+			.digest('hex')
+			.slice(0, 12);
+
+		const parsed = new URL(url);
+		const prefix = `${parsed.hostname}${parsed.pathname}`
+			.replace(/[^a-zA-Z0-9]+/g, '_')
+			.slice(0, 80);
+
+		return `${method.toLowerCase()}_${prefix}_${hash}`;
+	}
+
+	/**
+	 * Drop query parameters that change on every run (e.g. time windows)
+	 */
+	private normalizeUrl(url: string): string {
+		const ignored = this.options.ignoredParams || [];
+		if (ignored.length === 0) {
+			return url;
+		}
+
+		const parsed = new URL(url);
+		for (const param of ignored) {
+			parsed.searchParams.delete(param);
+		}
+		return parsed.toString();
+	}
+}
+
+/**
+ * Replace secret values in a JSON or form-encoded body
+ * Other bodies are returned unchanged
+ */
+export function redactSecrets(body: string): string {
+	const trimmed = body.trim();
+
+	if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+		try {
+			return JSON.stringify(redactJson(JSON.parse(trimmed)));
+		} catch (error) {
+			return body;
+		}
+	}
+
+	// Form bodies are key=value pairs joined with &
+	if (/^[\w.%-]+=[^&\s]*(&[\w.%-]+=[^&\s]*)*$/.test(trimmed)) {
+		const params = new URLSearchParams(trimmed);
+		for (const name of Array.from(params.keys())) {
+			if (SECRET_FORM_FIELDS.has(name)) {
+				params.set(name, REDACTED);
+			}
+		}
+		return params.toString();
+	}
+
+	return body;
+}
+
+function redactJson(value: unknown): unknown {
+	if (Array.isArray(value)) {
+		return value.map(redactJson);
+	}
+	if (value && typeof value === 'object') {
+		const redacted: Record<string, unknown> = {};
+		for (const [name, field] of Object.entries(value)) {
+			redacted[name] = SECRET_FIELDS.has(name) && typeof field === 'string' ? REDACTED : redactJson(field);
+		}
+		return redacted;
+	}
+	return value;
+}
+
+let defaultTransport: HttpTransport = new RequestUrlTransport();
+
+/**
+ * Transport used when none is passed explicitly
+ */
+export function getHttpTransport(): HttpTransport {
+	return defaultTransport;
+}
+
+/**
+ * Replace the default transport (e.g. with a RecordReplayTransport)
+ */
+export function setHttpTransport(transport: HttpTransport): void {
+	defaultTransport = transport;
+}
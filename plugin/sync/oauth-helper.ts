@@ -1,60 +1,457 @@
 /**
  * OAuth helper utilities
- * Supports both desktop (localhost server) and mobile (manual token entry)
+ * Supports both desktop (loopback server) and mobile (obsidian:// redirect) flows, using PKCE
  */
 
-import { Notice, Platform } from 'obsidian';
-import { OAuthConfig, OAuthTokens } from './types';
+import { Notice, ObsidianProtocolData, Platform } from 'obsidian';
+import { HttpTransport, OAuthConfig, OAuthFlowOptions, OAuthTokens, PKCEPair } from './types';
+import { getHttpTransport } from './http-transport';
+import { PendingOAuthFlowState } from '../types';
+
+/**
+ * Path the loopback server listens on for the OAuth callback
+ */
+const LOOPBACK_CALLBACK_PATH = '/callback';
+
+/**
+ * Default time to wait for the user to finish authorizing
+ */
+const DEFAULT_OAUTH_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Obsidian protocol action used as the OAuth redirect where no loopback
+ * server is available (mobile, sandboxed desktops)
+ */
+export const OAUTH_PROTOCOL_ACTION = 'generous-ai/oauth';
+
+/**
+ * An OAuth flow waiting for its obsidian:// callback
+ */
+interface PendingProtocolFlow {
+	provider: string;
+	config: OAuthConfig;
+	codeVerifier: string;
+	resolve: (tokens: OAuthTokens) => void;
+	reject: (error: Error) => void;
+	timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Persists protocol flows, so a callback still completes after Obsidian was closed
+ * while the user was in the browser (mobile apps are often killed in the background)
+ */
+export interface OAuthFlowStore {
+	load(): PendingOAuthFlowState[];
+	save(flows: PendingOAuthFlowState[]): Promise<void>;
+}
+
+/**
+ * A callback for a flow started before Obsidian restarted
+ * Its provider config is gone with the old session, so the caller exchanges the code
+ */
+export interface ResumedOAuthCallback {
+	provider: string;
+	code: string;
+	redirectUri: string;
+	codeVerifier: string;
+}
+
+/**
+ * Thrown when the provider rejects a refresh token (revoked or expired)
+ * The user has to go through the connect flow again
+ */
+export class TokenRevokedError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'TokenRevokedError';
+	}
+}
+
+/**
+ * Pending protocol flows keyed by state nonce
+ */
+const pendingProtocolFlows = new Map<string, PendingProtocolFlow>();
+
+let flowStore: OAuthFlowStore | null = null;
+
+/**
+ * Set where protocol flows are persisted (unset, they only live in memory)
+ */
+export function setOAuthFlowStore(store: OAuthFlowStore | null): void {
+	flowStore = store;
+}
 
 /**
  * Start OAuth flow
- * Desktop: Opens browser and starts localhost server
- * Mobile: Returns authorization URL for manual flow
+ * Desktop: Opens browser and starts a loopback server
+ * Mobile (or when no loopback server can be opened): redirects back via obsidian://
  */
 export async function startOAuthFlow(
-	config: OAuthConfig
-): Promise<OAuthTokens | string> {
+	config: OAuthConfig,
+	provider: string,
+	options: OAuthFlowOptions = {}
+): Promise<OAuthTokens> {
 	if (Platform.isDesktopApp) {
-		return await startDesktopOAuthFlow(config);
-	} else {
-		return getAuthorizationUrl(config);
+		const loopback = await openLoopbackServer();
+		if (loopback) {
+			return await runLoopbackOAuthFlow(config, loopback.server, loopback.port, options);
+		}
+		console.warn('Loopback server unavailable - falling back to obsidian:// redirect');
+	}
+
+	return await startProtocolOAuthFlow(config, provider, options);
+}
+
+/**
+ * Desktop OAuth flow using a loopback callback server
+ * Listens on an ephemeral port, uses PKCE and a state nonce,
+ * then exchanges the returned code for tokens
+ */
+export async function startDesktopOAuthFlow(
+	config: OAuthConfig,
+	options: OAuthFlowOptions = {}
+): Promise<OAuthTokens> {
+	const loopback = await openLoopbackServer();
+	if (!loopback) {
+		throw new Error('Could not start loopback server for OAuth callback');
+	}
+
+	return await runLoopbackOAuthFlow(config, loopback.server, loopback.port, options);
+}
+
+/**
+ * Open a loopback HTTP server on an ephemeral port
+ * Returns null where Node's http module or binding is unavailable
+ */
+async function openLoopbackServer(): Promise<{
+	server: import('http').Server;
+	port: number;
+} | null> {
+	try {
+		// Loaded lazily so the plugin still loads on mobile
+		const http: typeof import('http') = require('http');
+		const server = http.createServer();
+		const port = await listenOnEphemeralPort(server);
+		return { server, port };
+	} catch (error) {
+		console.warn('Failed to open loopback server:', error);
+		return null;
 	}
 }
 
 /**
- * Desktop OAuth flow using localhost callback server
+ * Run the authorization round trip against an already listening loopback server
  */
-async function startDesktopOAuthFlow(config: OAuthConfig): Promise<OAuthTokens> {
-	// This would require a localhost HTTP server
-	// For Phase B, we'll implement a simplified version
-	// that opens the browser and asks user to paste the callback URL
+async function runLoopbackOAuthFlow(
+	config: OAuthConfig,
+	server: import('http').Server,
+	port: number,
+	options: OAuthFlowOptions
+): Promise<OAuthTokens> {
+	const pkce = await generatePKCEPair();
+	const state = generateState();
+	const timeoutMs = options.timeoutMs ?? DEFAULT_OAUTH_TIMEOUT_MS;
+	const openUrl = options.openUrl ?? openInBrowser;
 
-	const authUrl = getAuthorizationUrl(config);
+	// Redirect back to our own listener for this flow only
+	const flowConfig: OAuthConfig = {
+		...config,
+		redirectUri: `http://127.0.0.1:${port}${LOOPBACK_CALLBACK_PATH}`,
+	};
 
-	// Open browser
-	window.open(authUrl, '_blank');
+	try {
+		const callback = waitForLoopbackCallback(server, flowConfig.redirectUri, timeoutMs);
 
-	new Notice(
-		'Please authorize in your browser, then paste the callback URL when prompted'
-	);
+		openUrl(getAuthorizationUrl(flowConfig, pkce, state));
+		new Notice('Please authorize in your browser to finish connecting');
+
+		const callbackUrl = await callback;
+		const code = parseCallbackUrl(callbackUrl);
+
+		if (new URL(callbackUrl).searchParams.get('state') !== state) {
+			throw new Error('OAuth state mismatch - authorization was not started by this flow');
+		}
+
+		return await exchangeCodeForTokens(code, flowConfig, pkce.codeVerifier);
+	} finally {
+		server.close();
+	}
+}
+
+/**
+ * OAuth flow that redirects back into Obsidian via the protocol handler
+ * Resolves once handleOAuthProtocolCallback receives the matching state
+ */
+export async function startProtocolOAuthFlow(
+	config: OAuthConfig,
+	provider: string,
+	options: OAuthFlowOptions = {}
+): Promise<OAuthTokens> {
+	const pkce = await generatePKCEPair();
+	const state = generateState();
+	const timeoutMs = options.timeoutMs ?? DEFAULT_OAUTH_TIMEOUT_MS;
+	const openUrl = options.openUrl ?? openInBrowser;
+
+	const flowConfig: OAuthConfig = {
+		...config,
+		redirectUri: getProtocolRedirectUri(provider),
+	};
+
+	const tokens = new Promise<OAuthTokens>((resolve, reject) => {
+		const timer = setTimeout(() => {
+			pendingProtocolFlows.delete(state);
+			forgetPersistedFlow(state).catch((error) => console.error('Failed to forget OAuth flow:', error));
+			reject(new Error('Timed out waiting for OAuth authorization'));
+		}, timeoutMs);
+
+		pendingProtocolFlows.set(state, {
+			provider,
+			config: flowConfig,
+			codeVerifier: pkce.codeVerifier,
+			resolve,
+			reject,
+			timer,
+		});
+	});
+
+	try {
+		await persistFlow({
+			state,
+			provider,
+			redirectUri: flowConfig.redirectUri,
+			codeVerifier: pkce.codeVerifier,
+			expiresAt: Date.now() + timeoutMs,
+		});
+
+		openUrl(getAuthorizationUrl(flowConfig, pkce, state));
+	} catch (error) {
+		// Nobody will wait on this flow, so it must not time out later
+		const flow = pendingProtocolFlows.get(state);
+		if (flow) {
+			clearTimeout(flow.timer);
+			pendingProtocolFlows.delete(state);
+		}
+		await forgetPersistedFlow(state).catch((forgetError) =>
+			console.error('Failed to forget OAuth flow:', forgetError)
+		);
+		throw error;
+	}
+
+	new Notice('Please authorize in your browser - you will be returned to Obsidian');
+
+	return await tokens;
+}
+
+/**
+ * Redirect URI that routes back to this plugin's protocol handler
+ */
+export function getProtocolRedirectUri(provider: string): string {
+	return `obsidian://${OAUTH_PROTOCOL_ACTION}?provider=${encodeURIComponent(provider)}`;
+}
+
+/**
+ * Handle an obsidian://generous-ai/oauth callback
+ * Matches the callback to its pending flow by state and exchanges the code. A flow
+ * persisted by an earlier session is returned for the caller to finish instead
+ */
+export async function handleOAuthProtocolCallback(
+	params: ObsidianProtocolData
+): Promise<ResumedOAuthCallback | null> {
+	const { action, ...query } = params;
+	const callbackUrl = `obsidian://${action}?${new URLSearchParams(query).toString()}`;
+
+	const flow = query.state ? pendingProtocolFlows.get(query.state) : undefined;
+	if (!flow) {
+		return await resumePersistedFlow(query, callbackUrl);
+	}
+
+	pendingProtocolFlows.delete(query.state);
+	clearTimeout(flow.timer);
+	await forgetPersistedFlow(query.state);
+
+	try {
+		if (query.provider && query.provider !== flow.provider) {
+			throw new Error(`OAuth callback was for ${query.provider}, expected ${flow.provider}`);
+		}
+
+		const code = parseCallbackUrl(callbackUrl);
+		flow.resolve(await exchangeCodeForTokens(code, flow.config, flow.codeVerifier));
+	} catch (error) {
+		flow.reject(error instanceof Error ? error : new Error(String(error)));
+	}
+	return null;
+}
+
+/**
+ * Match a callback to a flow persisted before Obsidian restarted
+ */
+async function resumePersistedFlow(
+	query: Record<string, string>,
+	callbackUrl: string
+): Promise<ResumedOAuthCallback> {
+	const flow = query.state ? loadPersistedFlows().find((f) => f.state === query.state) : undefined;
+	if (!flow) {
+		throw new Error('No pending authorization matches this callback - please try connecting again');
+	}
+
+	// Single use, whether or not the exchange succeeds
+	await forgetPersistedFlow(flow.state);
+
+	if (query.provider && query.provider !== flow.provider) {
+		throw new Error(`OAuth callback was for ${query.provider}, expected ${flow.provider}`);
+	}
+
+	return {
+		provider: flow.provider,
+		code: parseCallbackUrl(callbackUrl),
+		redirectUri: flow.redirectUri,
+		codeVerifier: flow.codeVerifier,
+	};
+}
+
+/**
+ * Persisted flows that haven't expired
+ */
+function loadPersistedFlows(): PendingOAuthFlowState[] {
+	const now = Date.now();
+	return (flowStore?.load() ?? []).filter((flow) => flow.expiresAt > now);
+}
+
+/**
+ * Persist a new flow - if that fails, the flow still completes while Obsidian stays open
+ */
+async function persistFlow(flow: PendingOAuthFlowState): Promise<void> {
+	try {
+		await flowStore?.save([...loadPersistedFlows(), flow]);
+	} catch (error) {
+		console.error('Failed to persist OAuth flow:', error);
+	}
+}
+
+async function forgetPersistedFlow(state: string): Promise<void> {
+	const flows = flowStore?.load() ?? [];
+	if (flowStore && flows.some((flow) => flow.state === state || flow.expiresAt <= Date.now())) {
+		await flowStore.save(loadPersistedFlows().filter((flow) => flow.state !== state));
+	}
+}
+
+/**
+ * Reject all pending protocol flows (e.g. on plugin unload)
+ * Persisted flows are kept, so a callback arriving after a reload still completes
+ */
+export function cancelPendingOAuthFlows(): void {
+	for (const flow of pendingProtocolFlows.values()) {
+		clearTimeout(flow.timer);
+		flow.reject(new Error('OAuth flow cancelled'));
+	}
+	pendingProtocolFlows.clear();
+}
+
+/**
+ * Open a URL in the system browser
+ */
+function openInBrowser(url: string): void {
+	window.open(url, '_blank');
+}
+
+/**
+ * Start listening on a random free port on the loopback interface
+ */
+function listenOnEphemeralPort(server: import('http').Server): Promise<number> {
+	return new Promise((resolve, reject) => {
+		server.once('error', reject);
+		server.listen(0, '127.0.0.1', () => {
+			server.off('error', reject);
+			const address = server.address();
+			if (address && typeof address === 'object') {
+				resolve(address.port);
+			} else {
+				reject(new Error('Could not determine loopback server port'));
+			}
+		});
+	});
+}
+
+/**
+ * Wait for the provider to redirect the browser back to the loopback server
+ * Resolves with the full callback URL (success or error)
+ */
+function waitForLoopbackCallback(
+	server: import('http').Server,
+	redirectUri: string,
+	timeoutMs: number
+): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const timer = setTimeout(() => {
+			reject(new Error('Timed out waiting for OAuth authorization'));
+		}, timeoutMs);
+
+		server.on('request', (req, res) => {
+			const url = new URL(req.url || '/', redirectUri);
 
-	// For now, we'll throw an error indicating this needs implementation
-	// In a real implementation, we would:
-	// 1. Start a localhost server on a random port
-	// 2. Update redirect URI to http://localhost:PORT
-	// 3. Wait for the callback
-	// 4. Extract the code and exchange for tokens
-	// 5. Shut down the server
+			// Ignore anything else the browser asks for (e.g. favicon)
+			if (url.pathname !== LOOPBACK_CALLBACK_PATH) {
+				res.writeHead(404);
+				res.end();
+				return;
+			}
+
+			const succeeded = url.searchParams.has('code');
+			res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+			res.end(
+				`<html><body><h3>${
+					succeeded ? 'Generous AI is connected.' : 'Authorization failed.'
+				}</h3><p>You can close this window and return to Obsidian.</p></body></html>`
+			);
+
+			clearTimeout(timer);
+			resolve(url.toString());
+		});
+	});
+}
 
-	throw new Error(
-		'Desktop OAuth flow requires localhost server - use manual token entry for now'
+/**
+ * Generate a PKCE code verifier and S256 challenge
+ */
+export async function generatePKCEPair(): Promise<PKCEPair> {
+	const codeVerifier = base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+	const digest = await crypto.subtle.digest(
+		'SHA-256',
+		new TextEncoder().encode(codeVerifier)
 	);
+
+	return {
+		codeVerifier,
+		codeChallenge: base64UrlEncode(new Uint8Array(digest)),
+	};
+}
+
+/**
+ * Generate a random state nonce to correlate the callback with its request
+ */
+export function generateState(): string {
+	return base64UrlEncode(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+/**
+ * Base64url-encode bytes without padding
+ */
+function base64UrlEncode(bytes: Uint8Array): string {
+	let binary = '';
+	for (let i = 0; i < bytes.byteLength; i++) {
+		binary += String.fromCharCode(bytes[i]);
+	}
+	return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
 }
 
 /**
  * Generate authorization URL
  */
-function getAuthorizationUrl(config: OAuthConfig): string {
+export function getAuthorizationUrl(
+	config: OAuthConfig,
+	pkce?: PKCEPair,
+	state?: string
+): string {
 	const params = new URLSearchParams({
 		client_id: config.clientId,
 		redirect_uri: config.redirectUri,
@@ -64,6 +461,15 @@ function getAuthorizationUrl(config: OAuthConfig): string {
 		prompt: 'consent', // Force consent screen to get refresh token
 	});
 
+	if (pkce) {
+		params.set('code_challenge', pkce.codeChallenge);
+		params.set('code_challenge_method', 'S256');
+	}
+
+	if (state) {
+		params.set('state', state);
+	}
+
 	return `${config.authUrl}?${params.toString()}`;
 }
 
@@ -72,7 +478,9 @@ function getAuthorizationUrl(config: OAuthConfig): string {
  */
 export async function exchangeCodeForTokens(
 	code: string,
-	config: OAuthConfig
+	config: OAuthConfig,
+	codeVerifier?: string,
+	transport: HttpTransport = getHttpTransport()
 ): Promise<OAuthTokens> {
 	const params = new URLSearchParams({
 		code,
@@ -85,7 +493,12 @@ export async function exchangeCodeForTokens(
 		params.set('client_secret', config.clientSecret);
 	}
 
-	const response = await fetch(config.tokenUrl, {
+	if (codeVerifier) {
+		params.set('code_verifier', codeVerifier);
+	}
+
+	const response = await transport.request({
+		url: config.tokenUrl,
 		method: 'POST',
 		headers: {
 			'Content-Type': 'application/x-www-form-urlencoded',
@@ -113,7 +526,8 @@ export async function exchangeCodeForTokens(
  */
 export async function refreshOAuthTokens(
 	refreshToken: string,
-	config: OAuthConfig
+	config: OAuthConfig,
+	transport: HttpTransport = getHttpTransport()
 ): Promise<OAuthTokens> {
 	const params = new URLSearchParams({
 		refresh_token: refreshToken,
@@ -125,7 +539,8 @@ export async function refreshOAuthTokens(
 		params.set('client_secret', config.clientSecret);
 	}
 
-	const response = await fetch(config.tokenUrl, {
+	const response = await transport.request({
+		url: config.tokenUrl,
 		method: 'POST',
 		headers: {
 			'Content-Type': 'application/x-www-form-urlencoded',
@@ -135,6 +550,12 @@ export async function refreshOAuthTokens(
 
 	if (!response.ok) {
 		const errorText = await response.text();
+
+		// Both Google and Spotify report revoked or expired refresh tokens this way
+		if (errorText.includes('invalid_grant')) {
+			throw new TokenRevokedError(`Refresh token rejected: ${errorText}`);
+		}
+
 		throw new Error(`Token refresh failed: ${errorText}`);
 	}
 
@@ -158,10 +579,12 @@ export async function refreshOAuthTokens(
  */
 export async function validateTokens(
 	tokens: OAuthTokens,
-	testUrl: string
+	testUrl: string,
+	transport: HttpTransport = getHttpTransport()
 ): Promise<boolean> {
 	try {
-		const response = await fetch(testUrl, {
+		const response = await transport.request({
+			url: testUrl,
 			headers: {
 				Authorization: `Bearer ${tokens.access_token}`,
 			},
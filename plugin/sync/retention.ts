@@ -0,0 +1,198 @@
+/**
+ * Data retention
+ * Background job that deletes (or strips the raw content of) cached items older than
+ * their data type's retention policy
+ */
+
+import Dexie from 'dexie';
+import GenerousAIPlugin from '../main';
+import { CachedData, GenerousAIDatabase } from '../database';
+
+/**
+ * How often expired items are purged
+ */
+const RETENTION_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Wait after startup before the first purge, so it never slows down loading
+ */
+const FIRST_RUN_DELAY_MS = 2 * 60 * 1000;
+
+/**
+ * Items deleted per transaction
+ */
+const PURGE_BATCH_SIZE = 500;
+
+/**
+ * Raw content removed by a 'strip' policy - everything else is kept as metadata
+ */
+export const RAW_CONTENT_FIELDS: Record<string, string[]> = {
+	email: ['body', 'snippet', 'attachments'],
+	calendar_event: ['description'],
+	transaction: ['memo'],
+	note: ['content'],
+};
+
+/**
+ * Settings key for a data type's policy
+ */
+export function getRetentionKey(source: string, dataType: string): string {
+	return `${source}/${dataType}`;
+}
+
+/**
+ * Outcome of one purge
+ */
+export interface RetentionReport {
+	deleted: number;
+	stripped: number;
+	entitiesRemoved: number;
+	sourcesStubbed: number; // Entities and relationships whose sources became provenance stubs
+}
+
+/**
+ * Retention purge job
+ */
+export class RetentionJob {
+	private plugin: GenerousAIPlugin;
+	private db: GenerousAIDatabase;
+	private timer: number | null = null;
+	private running: Promise<RetentionReport> | null = null;
+
+	constructor(plugin: GenerousAIPlugin, database: GenerousAIDatabase) {
+		this.plugin = plugin;
+		this.db = database;
+	}
+
+	/**
+	 * Purge periodically, starting shortly after startup
+	 */
+	start(): void {
+		this.stop();
+
+		const tick = () => {
+			// Deleting under a running sync would race its cache writes
+			if (this.plugin.syncManager.isSyncing()) {
+				console.log('Skipping retention purge - a sync is running');
+				return;
+			}
+			this.run().catch((error) => console.error('Retention purge failed:', error));
+		};
+
+		this.timer = window.setTimeout(() => {
+			tick();
+			this.timer = window.setInterval(tick, RETENTION_INTERVAL_MS);
+		}, FIRST_RUN_DELAY_MS);
+	}
+
+	/**
+	 * Stop purging
+	 */
+	stop(): void {
+		if (this.timer !== null) {
+			// The id may belong to the first-run timeout or the interval
+			window.clearTimeout(this.timer);
+			window.clearInterval(this.timer);
+			this.timer = null;
+		}
+	}
+
+	/**
+	 * Apply every retention policy now
+	 * Joins a purge already in progress
+	 */
+	async run(): Promise<RetentionReport> {
+		if (!this.running) {
+			this.running = this.purgeExpired().finally(() => {
+				this.running = null;
+			});
+		}
+		return await this.running;
+	}
+
+	private async purgeExpired(): Promise<RetentionReport> {
+		const report: RetentionReport = { deleted: 0, stripped: 0, entitiesRemoved: 0, sourcesStubbed: 0 };
+
+		for (const [key, policy] of Object.entries(this.plugin.settings.retentionPolicies)) {
+			if (!policy || policy.maxAgeDays <= 0) {
+				continue;
+			}
+
+			const [source, dataType] = key.split('/');
+			const cutoff = Date.now() - policy.maxAgeDays * 24 * 60 * 60 * 1000;
+
+			if (policy.action === 'strip') {
+				report.stripped += await this.stripExpired(source, dataType, cutoff);
+			} else {
+				await this.deleteExpired(source, dataType, cutoff, report);
+			}
+		}
+
+		if (report.deleted > 0 || report.stripped > 0) {
+			console.log(
+				`Retention purge: ${report.deleted} deleted, ${report.stripped} stripped, ` +
+					`${report.entitiesRemoved} entities removed, ${report.sourcesStubbed} facts kept as stubs`
+			);
+		}
+
+		return report;
+	}
+
+	/**
+	 * Items of a data type that happened before the cutoff
+	 */
+	private getExpired(source: string, dataType: string, cutoff: number): Dexie.Collection<CachedData> {
+		return this.db.cachedData
+			.where('[source+dataType+timestamp]')
+			.between([source, dataType, Dexie.minKey], [source, dataType, cutoff]);
+	}
+
+	/**
+	 * Delete expired items, then remove or stub the Weave facts that came from them
+	 */
+	private async deleteExpired(
+		source: string,
+		dataType: string,
+		cutoff: number,
+		report: RetentionReport
+	): Promise<void> {
+		while (true) {
+			const expired = await this.getExpired(source, dataType, cutoff).limit(PURGE_BATCH_SIZE).toArray();
+			if (expired.length === 0) {
+				return;
+			}
+
+			await this.db.cachedData.bulkDelete(expired.map((item) => item.id!));
+			report.deleted += expired.length;
+
+			if (this.plugin.settings.keepWeaveFactsAfterRetention) {
+				report.sourcesStubbed += await this.plugin.weaveManager.markCachedItemsExpired(expired);
+			} else {
+				const { entitiesRemoved } = await this.plugin.weaveManager.forgetCachedItems(expired);
+				report.entitiesRemoved += entitiesRemoved;
+			}
+		}
+	}
+
+	/**
+	 * Remove raw content from expired items, keeping their metadata
+	 * The content hash is left alone, so refetching an item doesn't restore its content
+	 */
+	private async stripExpired(source: string, dataType: string, cutoff: number): Promise<number> {
+		const fields = RAW_CONTENT_FIELDS[dataType];
+		if (!fields) {
+			return 0;
+		}
+
+		const strippedAt = Date.now();
+		return await this.getExpired(source, dataType, cutoff)
+			.filter((item) => !item.strippedAt)
+			.modify((item) => {
+				for (const field of fields) {
+					delete item.data[field];
+				}
+				item.strippedAt = strippedAt;
+			});
+	}
+}
+
@@ -22,6 +22,11 @@ export const SPOTIFY_OAUTH_CONFIG: Partial<OAuthConfig> = {
 	redirectUri: 'http://localhost:8080/callback',
 };
 
+/**
+ * Endpoint used to check that stored tokens still work
+ */
+export const SPOTIFY_VALIDATION_URL = 'https://api.spotify.com/v1/me';
+
 /**
  * Spotify track
  */
@@ -50,13 +55,11 @@ interface RecentlyPlayedItem {
  * Spotify service
  */
 export class SpotifyService extends BaseSyncService {
-	private clientId: string;
-	private clientSecret: string;
+	private oauthConfig: OAuthConfig;
 
-	constructor(clientId: string, clientSecret: string) {
+	constructor(oauthConfig: OAuthConfig) {
 		super('spotify');
-		this.clientId = clientId;
-		this.clientSecret = clientSecret;
+		this.oauthConfig = oauthConfig;
 	}
 
 	/**
@@ -67,15 +70,9 @@ export class SpotifyService extends BaseSyncService {
 			throw new Error('No refresh token available');
 		}
 
-		const config: OAuthConfig = {
-			...SPOTIFY_OAUTH_CONFIG,
-			clientId: this.clientId,
-			clientSecret: this.clientSecret,
-		} as OAuthConfig;
-
 		const newTokens = await refreshOAuthTokens(
 			this.tokens.refresh_token,
-			config
+			this.oauthConfig
 		);
 
 		this.setTokens(newTokens);
@@ -85,26 +82,28 @@ export class SpotifyService extends BaseSyncService {
 	 * Perform sync for Spotify data
 	 */
 	protected async performSync(): Promise<Partial<SyncResult>> {
+		// Added/updated/unchanged counts come from the cache writes
 		const result: Partial<SyncResult> = {
 			itemsProcessed: 0,
-			itemsAdded: 0,
-			itemsUpdated: 0,
 		};
 
 		// Sync recently played tracks
-		const recentTracks = await this.syncRecentlyPlayed();
-		result.itemsProcessed! += recentTracks.length;
-		result.itemsAdded! += recentTracks.length;
+		if (!this.isExcluded('recently_played')) {
+			const recentTracks = await this.syncRecentlyPlayed();
+			result.itemsProcessed! += recentTracks.length;
+		}
 
 		// Sync top tracks
-		const topTracks = await this.syncTopTracks();
-		result.itemsProcessed! += topTracks.length;
-		result.itemsAdded! += topTracks.length;
+		if (!this.isExcluded('top_track')) {
+			const topTracks = await this.syncTopTracks();
+			result.itemsProcessed! += topTracks.length;
+		}
 
 		// Sync saved tracks
-		const savedTracks = await this.syncSavedTracks();
-		result.itemsProcessed! += savedTracks.length;
-		result.itemsAdded! += savedTracks.length;
+		if (!this.isExcluded('saved_track')) {
+			const savedTracks = await this.syncSavedTracks();
+			result.itemsProcessed! += savedTracks.length;
+		}
 
 		return result;
 	}
@@ -127,11 +126,14 @@ export class SpotifyService extends BaseSyncService {
 	 */
 	private async syncRecentlyPlayed(since?: number): Promise<FetchedDataItem[]> {
 		const items: FetchedDataItem[] = [];
+		const cursor = await this.getCursor('recently_played');
 
 		let url = 'https://api.spotify.com/v1/me/player/recently-played?limit=50';
 
-		if (since) {
-			url += `&after=${since}`;
+		// Spotify's `after` cursor is a unix timestamp in milliseconds
+		const after = since ?? (cursor?.cursor ? parseInt(cursor.cursor) : undefined);
+		if (after) {
+			url += `&after=${after}`;
 		}
 
 		const response = await this.makeRequest(url);
@@ -141,6 +143,8 @@ export class SpotifyService extends BaseSyncService {
 			return items;
 		}
 
+		let lastTimestamp = cursor?.lastTimestamp || 0;
+
 		for (const item of data.items as RecentlyPlayedItem[]) {
 			const playedAt = new Date(item.played_at).getTime();
 
@@ -160,10 +164,17 @@ export class SpotifyService extends BaseSyncService {
 				timestamp: playedAt,
 			});
 
-			// Cache the item
-			await this.cacheData([items[items.length - 1]]);
+			lastTimestamp = Math.max(lastTimestamp, playedAt);
 		}
 
+		// Cache all items in one transaction
+		await this.cacheData(items);
+
+		await this.saveCursor('recently_played', {
+			cursor: data.cursors?.after || String(lastTimestamp),
+			lastTimestamp,
+		});
+
 		return items;
 	}
 
@@ -215,43 +226,67 @@ export class SpotifyService extends BaseSyncService {
 	 */
 	private async syncSavedTracks(since?: number): Promise<FetchedDataItem[]> {
 		const items: FetchedDataItem[] = [];
-
-		const url = 'https://api.spotify.com/v1/me/tracks?limit=50';
-
-		const response = await this.makeRequest(url);
-		const data = await response.json();
-
-		if (!data.items || data.items.length === 0) {
-			return items;
-		}
-
-		for (const item of data.items) {
-			const addedAt = new Date(item.added_at).getTime();
-
-			// Skip if before 'since' timestamp
-			if (since && addedAt < since) {
-				continue;
-			}
-
-			const track = item.track as SpotifyTrack;
-
-			items.push({
-				id: `saved-${track.id}`,
-				type: 'saved_track',
-				source: 'spotify',
-				data: {
-					trackId: track.id,
-					trackName: track.name,
-					artists: track.artists.map((a) => a.name),
-					album: track.album.name,
-					addedAt: item.added_at,
+		const cursor = await this.getCursor('saved_track');
+		const addedAfter = since ?? (cursor?.lastTimestamp || this.getBackfillStart() || 0);
+
+		let lastTimestamp = cursor?.lastTimestamp || 0;
+
+		// Saved tracks are newest first and not filterable server-side,
+		// so stop paging at the first track we have already seen
+		await this.fetchPaginated(
+			async (pageToken, params) => {
+				const url = pageToken || 'https://api.spotify.com/v1/me/tracks?limit=50';
+
+				const response = await this.makeRequest(url);
+				const data = await response.json();
+
+				const after = parseInt(params.addedAfter);
+				const pageItems = (data.items || []).filter(
+					(item: any) => new Date(item.added_at).getTime() > after
+				);
+				const reachedSeen = pageItems.length < (data.items || []).length;
+
+				return {
+					items: pageItems,
+					nextPageToken: reachedSeen ? undefined : data.next || undefined,
+					totalItems: data.total,
+				};
+			},
+			{
+				checkpointKey: 'saved_track',
+				maxItems: this.backfillLimit.maxItems,
+				params: { addedAfter: String(addedAfter) },
+				onPage: async (pageItems: any[]) => {
+					const pageStart = items.length;
+
+					for (const item of pageItems) {
+						const addedAt = new Date(item.added_at).getTime();
+						const track = item.track as SpotifyTrack;
+
+						items.push({
+							id: `saved-${track.id}`,
+							type: 'saved_track',
+							source: 'spotify',
+							data: {
+								trackId: track.id,
+								trackName: track.name,
+								artists: track.artists.map((a) => a.name),
+								album: track.album.name,
+								addedAt: item.added_at,
+							},
+							timestamp: addedAt,
+						});
+
+						lastTimestamp = Math.max(lastTimestamp, addedAt);
+					}
+
+					// Cache the whole page in one transaction
+					await this.cacheData(items.slice(pageStart));
 				},
-				timestamp: addedAt,
-			});
+			}
+		);
 
-			// Cache the item
-			await this.cacheData([items[items.length - 1]]);
-		}
+		await this.saveCursor('saved_track', { lastTimestamp });
 
 		return items;
 	}
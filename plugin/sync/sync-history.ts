@@ -0,0 +1,214 @@
+/**
+ * Sync history
+ * Records every sync run and renders the `sync-log.md` report
+ */
+
+import { TFile } from 'obsidian';
+import GenerousAIPlugin from '../main';
+import { GenerousAIDatabase, SyncRun, SyncRunSource } from '../database';
+import { DataSource, SyncResult } from './types';
+
+/**
+ * Runs kept in the database
+ */
+const MAX_STORED_RUNS = 200;
+
+/**
+ * Runs listed in the sync log note
+ */
+const MAX_LOGGED_RUNS = 50;
+
+/**
+ * Sync history recorder
+ */
+export class SyncHistory {
+	private plugin: GenerousAIPlugin;
+	private db: GenerousAIDatabase;
+
+	constructor(plugin: GenerousAIPlugin, database: GenerousAIDatabase) {
+		this.plugin = plugin;
+		this.db = database;
+	}
+
+	/**
+	 * Record the start of a run
+	 */
+	async startRun(trigger: SyncRun['trigger']): Promise<number> {
+		return await this.db.startSyncRun(trigger);
+	}
+
+	/**
+	 * Capture one source's outcome, including its cursor positions after the run
+	 */
+	async buildSourceEntry(
+		source: DataSource,
+		startedAt: number,
+		result: SyncResult
+	): Promise<SyncRunSource> {
+		const cursors = await this.db.syncCursors.where('source').equals(source).toArray();
+		const state = await this.db.getSyncState(source);
+
+		return {
+			source,
+			startedAt,
+			endedAt: Date.now(),
+			success: result.success,
+			itemsProcessed: result.itemsProcessed,
+			itemsAdded: result.itemsAdded,
+			itemsUpdated: result.itemsUpdated,
+			itemsUnchanged: result.itemsUnchanged,
+			errors: result.errors,
+			errorType: result.success ? undefined : state?.errorType,
+			cursors: cursors.map((c) => ({
+				dataType: c.dataType,
+				cursor: c.cursor,
+				lastTimestamp: c.lastTimestamp,
+			})),
+		};
+	}
+
+	/**
+	 * Record the end of a run and refresh the sync log note
+	 */
+	async finishRun(id: number, sources: SyncRunSource[], cancelled: boolean): Promise<void> {
+		const failed = sources.filter((s) => !s.success).length;
+
+		let status: SyncRun['status'];
+		if (cancelled) {
+			status = 'cancelled';
+		} else if (failed === 0) {
+			status = 'success';
+		} else {
+			status = failed === sources.length ? 'error' : 'partial';
+		}
+
+		await this.db.updateSyncRun(id, { endedAt: Date.now(), status, sources });
+		await this.db.pruneSyncRuns(MAX_STORED_RUNS);
+
+		try {
+			await this.writeSyncLog();
+		} catch (error) {
+			console.error('Failed to write sync log:', error);
+		}
+	}
+
+	/**
+	 * Get recent runs, newest first
+	 */
+	async getRecentRuns(limit: number = MAX_LOGGED_RUNS): Promise<SyncRun[]> {
+		return await this.db.getRecentSyncRuns(limit);
+	}
+
+	/**
+	 * Write `_assistant/sync-log.md`
+	 */
+	async writeSyncLog(): Promise<void> {
+		const path = `${this.plugin.settings.systemFolderPath}/sync-log.md`;
+		const markdown = generateSyncLog(await this.getRecentRuns());
+
+		const existing = this.plugin.app.vault.getAbstractFileByPath(path);
+		if (existing instanceof TFile) {
+			await this.plugin.app.vault.modify(existing, markdown);
+		} else {
+			await this.plugin.app.vault.create(path, markdown);
+		}
+	}
+}
+
+/**
+ * For each source, the first run of its current streak of failures
+ */
+export function getFailingSince(runs: SyncRun[]): Map<string, SyncRunSource> {
+	const failing = new Map<string, SyncRunSource>();
+	const recovered = new Set<string>();
+
+	// Runs are newest first - walk back until each source last succeeded
+	for (const run of runs) {
+		for (const entry of run.sources) {
+			if (recovered.has(entry.source)) continue;
+
+			if (entry.success) {
+				recovered.add(entry.source);
+			} else {
+				failing.set(entry.source, entry);
+			}
+		}
+	}
+
+	return failing;
+}
+
+/**
+ * Render runs (newest first) as markdown
+ */
+export function generateSyncLog(runs: SyncRun[]): string {
+	let markdown = `# Sync Log
+
+*Generated ${new Date().toLocaleString()} - do not edit, this note is rewritten after every sync.*
+
+`;
+
+	const failing = getFailingSince(runs);
+
+	markdown += `## Failing Sources\n\n`;
+	if (failing.size === 0) {
+		markdown += `None - every source succeeded on its last run.\n\n`;
+	} else {
+		for (const [source, entry] of failing) {
+			const reason = entry.errors[0] || 'Unknown error';
+			markdown += `- **${source}**: failing since ${formatTime(entry.startedAt)}`;
+			markdown += `${entry.errorType ? ` (${entry.errorType})` : ''} - ${reason}\n`;
+		}
+		markdown += `\n`;
+	}
+
+	markdown += `## Recent Runs\n\n`;
+	markdown += `| Started | Trigger | Status | Duration | Sources |\n`;
+	markdown += `| --- | --- | --- | --- | --- |\n`;
+
+	for (const run of runs) {
+		const duration = run.endedAt ? formatDuration(run.endedAt - run.startedAt) : '-';
+		const sources = run.sources
+			.map((s) => `${s.source}: ${s.success ? `${s.itemsAdded} new, ${s.itemsUpdated} updated` : 'failed'}`)
+			.join(', ');
+		markdown += `| ${formatTime(run.startedAt)} | ${run.trigger} | ${run.status} | ${duration} | ${sources || '-'} |\n`;
+	}
+
+	const withErrors = runs.filter((run) => run.sources.some((s) => s.errors.length > 0));
+	if (withErrors.length > 0) {
+		markdown += `\n## Errors\n\n`;
+		for (const run of withErrors) {
+			markdown += `### ${formatTime(run.startedAt)}\n\n`;
+			for (const entry of run.sources) {
+				for (const error of entry.errors) {
+					markdown += `- **${entry.source}**: ${error.replace(/\n/g, ' ')}\n`;
+				}
+			}
+			markdown += `\n`;
+		}
+	}
+
+	const latest = runs.find((run) => run.sources.length > 0);
+	if (latest) {
+		markdown += `\n## Cursor Positions\n\n`;
+		markdown += `*As of ${formatTime(latest.startedAt)}*\n\n`;
+		for (const entry of latest.sources) {
+			for (const cursor of entry.cursors) {
+				const position = cursor.cursor ? `\`${cursor.cursor}\`` : 'none';
+				const newest = cursor.lastTimestamp ? formatTime(cursor.lastTimestamp) : 'never';
+				markdown += `- **${entry.source} / ${cursor.dataType}**: cursor ${position}, newest item ${newest}\n`;
+			}
+		}
+	}
+
+	return markdown;
+}
+
+function formatTime(timestamp: number): string {
+	return new Date(timestamp).toLocaleString();
+}
+
+function formatDuration(ms: number): string {
+	const seconds = Math.round(ms / 1000);
+	return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
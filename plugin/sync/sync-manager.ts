@@ -3,26 +3,82 @@
  * Coordinates all data sync services
  */
 
-import { Notice } from 'obsidian';
+import { Notice, TFile } from 'obsidian';
 import GenerousAIPlugin from '../main';
-import { GoogleService } from './google-service';
-import { SpotifyService } from './spotify-service';
-import { YNABService } from './ynab-service';
+import { GOOGLE_OAUTH_CONFIG, GOOGLE_VALIDATION_URL } from './google-service';
+import { SPOTIFY_OAUTH_CONFIG, SPOTIFY_VALIDATION_URL } from './spotify-service';
 import { BaseSyncService } from './base-service';
-import { DataSource, SyncResult } from './types';
-import { db } from '../database';
+import { FileImportService } from './file-import-service';
+import { ResumedOAuthCallback, exchangeCodeForTokens, startOAuthFlow, validateTokens } from './oauth-helper';
+import { EncryptedSettingsTokenStore } from './token-store';
+import {
+	DataSource,
+	FetchedDataItem,
+	OAuthClientCredentials,
+	OAuthConfig,
+	OAuthDataSource,
+	SyncErrorType,
+	SyncProgressCallback,
+	SyncResult,
+	DataTypePreview,
+} from './types';
+import { SyncJob, SyncJobQueue } from './sync-queue';
+import { SchedulerHost, SyncScheduler } from './sync-scheduler';
+import { SyncHistory } from './sync-history';
+import { ChangeFeed } from './change-feed';
+import { ExclusionMatcher, parseExclusionRules } from './exclusion-rules';
+import { RetentionJob } from './retention';
+import { HEALTH_SOURCE } from './apple-health';
+import { VaultNoteWatcher } from './vault-notes';
+import { CachedData, GenerousAIDatabase, SyncRun, SyncRunSource } from '../database';
+import { BackfillLimit, DataSourceStatus } from '../types';
+
+/**
+ * Settings keys holding each provider's OAuth client configuration
+ */
+const OAUTH_CLIENT_SETTING_KEYS = {
+	google: {
+		clientId: 'googleClientId',
+		clientSecret: 'googleClientSecret',
+		authUrl: 'googleAuthUrl',
+		tokenUrl: 'googleTokenUrl',
+	},
+	spotify: {
+		clientId: 'spotifyClientId',
+		clientSecret: 'spotifyClientSecret',
+		authUrl: 'spotifyAuthUrl',
+		tokenUrl: 'spotifyTokenUrl',
+	},
+} as const;
 
 /**
  * Sync manager class
  */
-export class SyncManager {
+export class SyncManager implements SchedulerHost {
 	private plugin: GenerousAIPlugin;
+	private db: GenerousAIDatabase;
 	private services: Map<DataSource, BaseSyncService>;
-	private syncInterval: number | null = null;
-
-	constructor(plugin: GenerousAIPlugin) {
+	private scheduler: SyncScheduler;
+	private activeSync: { controller: AbortController; promise: Promise<Map<DataSource, SyncResult>> } | null = null;
+	private progressListeners = new Set<SyncProgressCallback>();
+	private previewing = new Set<DataSource>();
+	private exclusionMatcher = new ExclusionMatcher();
+	tokenStore: EncryptedSettingsTokenStore;
+	history: SyncHistory;
+	changeFeed: ChangeFeed;
+	retention: RetentionJob;
+	private noteWatcher: VaultNoteWatcher;
+
+	constructor(plugin: GenerousAIPlugin, database: GenerousAIDatabase) {
 		this.plugin = plugin;
+		this.db = database;
 		this.services = new Map();
+		this.tokenStore = new EncryptedSettingsTokenStore(plugin);
+		this.scheduler = new SyncScheduler(this, database);
+		this.history = new SyncHistory(plugin, database);
+		this.changeFeed = new ChangeFeed(database);
+		this.retention = new RetentionJob(plugin, database);
+		this.noteWatcher = new VaultNoteWatcher(plugin);
 	}
 
 	/**
@@ -36,80 +92,438 @@ export class SyncManager {
 			return;
 		}
 
-		try {
-			// Initialize Google service if tokens exist
-			if (this.plugin.settings.googleTokens) {
-				await this.initializeGoogleService();
+		// Services are created per source, so one failing source doesn't block the rest
+		for (const descriptor of this.plugin.dataSources.getAll()) {
+			try {
+				await this.initializeSource(descriptor.id);
+			} catch (error) {
+				console.error(`Failed to initialize ${descriptor.displayName}:`, error);
 			}
+		}
+
+		try {
+			// Apply exclusion rules, purging anything cached before a rule was added
+			await this.applyExclusionRules();
+
+			console.log('Sync services initialized');
+		} catch (error) {
+			console.error('Failed to initialize sync services:', error);
+		}
+	}
+
+	/**
+	 * Create (or recreate) a registered source's service
+	 * Sources that aren't connected yet are left without one
+	 */
+	async initializeSource(source: DataSource): Promise<void> {
+		const descriptor = this.plugin.dataSources.get(source);
+		if (!descriptor) {
+			throw new Error(`Unknown data source: ${source}`);
+		}
+
+		const service = await descriptor.createService(this.plugin);
+		if (!service) {
+			this.services.delete(source);
+			return;
+		}
+
+		if (service.getSource() !== source) {
+			throw new Error(`${descriptor.displayName} service was created for "${service.getSource()}"`);
+		}
+
+		if (descriptor.authKind === 'oauth') {
+			service.setTokenStore(this.tokenStore);
+		}
+
+		service.setDisplayName(descriptor.displayName);
+		service.setBackfillLimit(this.getBackfillLimit(source));
+		service.setSyncInterval(this.getSyncInterval(source));
+		service.setExcludedDataTypes(this.getExcludedDataTypes(source));
+		service.setDatabase(this.db);
+		service.setChangeFeed(this.changeFeed);
+		service.setExclusionMatcher(this.exclusionMatcher);
+
+		this.services.set(source, service);
+	}
+
+	/**
+	 * Build OAuth configuration for a provider from the encrypted client settings
+	 */
+	async getOAuthConfig(source: OAuthDataSource): Promise<OAuthConfig> {
+		const keys = OAUTH_CLIENT_SETTING_KEYS[source];
+		const defaults = source === 'google' ? GOOGLE_OAUTH_CONFIG : SPOTIFY_OAUTH_CONFIG;
+
+		const clientId = this.plugin.settings[keys.clientId]
+			? await this.plugin.decryptSetting(keys.clientId)
+			: null;
+		const clientSecret = this.plugin.settings[keys.clientSecret]
+			? await this.plugin.decryptSetting(keys.clientSecret)
+			: null;
+
+		return {
+			...defaults,
+			clientId: clientId || '',
+			clientSecret: clientSecret || undefined,
+			authUrl: this.plugin.settings[keys.authUrl] || defaults.authUrl,
+			tokenUrl: this.plugin.settings[keys.tokenUrl] || defaults.tokenUrl,
+		} as OAuthConfig;
+	}
+
+	/**
+	 * Save OAuth client credentials for a provider
+	 * Validates the input and, if the provider is connected, checks the stored tokens still work
+	 */
+	async saveOAuthClientCredentials(
+		source: OAuthDataSource,
+		credentials: OAuthClientCredentials
+	): Promise<boolean> {
+		const displayName = source === 'google' ? 'Google' : 'Spotify';
+		const keys = OAUTH_CLIENT_SETTING_KEYS[source];
+
+		const clientId = credentials.clientId?.trim();
+		if (!clientId && !this.plugin.settings[keys.clientId]) {
+			new Notice(`${displayName} client ID is required`);
+			return false;
+		}
 
-			// Initialize Spotify service if tokens exist
-			if (this.plugin.settings.spotifyTokens) {
-				await this.initializeSpotifyService();
+		const authUrl = credentials.authUrl.trim();
+		const tokenUrl = credentials.tokenUrl.trim();
+		for (const url of [authUrl, tokenUrl]) {
+			if (url && !this.isHttpUrl(url)) {
+				new Notice(`Invalid URL: ${url}`);
+				return false;
 			}
+		}
+
+		if (clientId) {
+			await this.plugin.encryptAndSaveSetting(keys.clientId, clientId);
+		}
 
-			// Initialize YNAB service if token exists
-			if (this.plugin.settings.ynabToken) {
-				await this.initializeYNABService();
+		if (credentials.clientSecret !== undefined) {
+			const clientSecret = credentials.clientSecret.trim();
+			if (clientSecret) {
+				await this.plugin.encryptAndSaveSetting(keys.clientSecret, clientSecret);
+			} else {
+				this.plugin.settings[keys.clientSecret] = null;
 			}
+		}
 
-			console.log('Sync services initialized');
+		this.plugin.settings[keys.authUrl] = authUrl;
+		this.plugin.settings[keys.tokenUrl] = tokenUrl;
+		await this.plugin.saveSettings();
+
+		// Rebuild the service so token refreshes use the new credentials
+		const tokenKey = source === 'google' ? 'googleTokens' : 'spotifyTokens';
+		if (!this.plugin.settings[tokenKey]) {
+			new Notice(`${displayName} client credentials saved`);
+			return true;
+		}
+
+		await this.initializeSource(source);
+
+		const service = this.services.get(source);
+		const refreshed = service ? await service.refreshTokensIfNeeded() : false;
+		const tokens = service?.getTokens();
+		const valid =
+			refreshed &&
+			!!tokens &&
+			(await validateTokens(
+				tokens,
+				source === 'google' ? GOOGLE_VALIDATION_URL : SPOTIFY_VALIDATION_URL
+			));
+
+		if (valid) {
+			new Notice(`${displayName} client credentials saved and connection verified`);
+		} else {
+			new Notice(
+				`${displayName} client credentials saved, but the existing connection could not be verified - try reconnecting`
+			);
+		}
+
+		return true;
+	}
+
+	/**
+	 * Check if a string is an absolute http(s) URL
+	 */
+	private isHttpUrl(value: string): boolean {
+		try {
+			const url = new URL(value);
+			return url.protocol === 'http:' || url.protocol === 'https:';
 		} catch (error) {
-			console.error('Failed to initialize sync services:', error);
+			return false;
 		}
 	}
 
 	/**
-	 * Initialize Google service
+	 * Run the interactive OAuth flow for a provider and store the tokens
+	 * Returns true if the service is now connected
 	 */
-	private async initializeGoogleService(): Promise<void> {
-		// Decrypt Google tokens
-		const tokensJson = await this.plugin.decryptSetting('googleTokens');
-		if (!tokensJson) return;
+	async connectOAuthService(source: OAuthDataSource): Promise<boolean> {
+		const displayName = source === 'google' ? 'Google' : 'Spotify';
+		const config = await this.getOAuthConfig(source);
 
-		const tokens = JSON.parse(tokensJson);
+		if (!config.clientId) {
+			new Notice(`${displayName} client ID is not configured - add it under OAuth Clients`);
+			return false;
+		}
+
+		try {
+			const result = await startOAuthFlow(config, source);
 
-		// Get Google client credentials (would need to be configured)
-		// For now, using placeholder values
-		const clientId = process.env.GOOGLE_CLIENT_ID || '';
-		const clientSecret = process.env.GOOGLE_CLIENT_SECRET || '';
+			// Also clears any pending reauthorization flag
+			await this.tokenStore.saveTokens(source, result);
 
-		const googleService = new GoogleService(clientId, clientSecret);
-		googleService.setTokens(tokens);
+			await this.initializeSource(source);
 
-		this.services.set('google', googleService);
+			new Notice(`Connected to ${displayName}`);
+			return true;
+		} catch (error) {
+			console.error(`OAuth flow failed for ${source}:`, error);
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			new Notice(`Failed to connect ${displayName}: ${errorMessage}`);
+			return false;
+		}
 	}
 
 	/**
-	 * Initialize Spotify service
+	 * Finish a connect flow whose callback arrived after Obsidian restarted
 	 */
-	private async initializeSpotifyService(): Promise<void> {
-		// Decrypt Spotify tokens
-		const tokensJson = await this.plugin.decryptSetting('spotifyTokens');
-		if (!tokensJson) return;
+	async completeResumedOAuthFlow(callback: ResumedOAuthCallback): Promise<boolean> {
+		if (callback.provider !== 'google' && callback.provider !== 'spotify') {
+			new Notice(`OAuth callback for unknown provider: ${callback.provider}`);
+			return false;
+		}
+
+		const source: OAuthDataSource = callback.provider;
+		const displayName = source === 'google' ? 'Google' : 'Spotify';
 
-		const tokens = JSON.parse(tokensJson);
+		try {
+			const config = await this.getOAuthConfig(source);
+			const tokens = await exchangeCodeForTokens(
+				callback.code,
+				{ ...config, redirectUri: callback.redirectUri },
+				callback.codeVerifier
+			);
 
-		// Get Spotify client credentials (would need to be configured)
-		const clientId = process.env.SPOTIFY_CLIENT_ID || '';
-		const clientSecret = process.env.SPOTIFY_CLIENT_SECRET || '';
+			await this.tokenStore.saveTokens(source, tokens);
+			await this.initializeSource(source);
 
-		const spotifyService = new SpotifyService(clientId, clientSecret);
-		spotifyService.setTokens(tokens);
+			new Notice(`Connected to ${displayName}`);
+			return true;
+		} catch (error) {
+			console.error(`Resumed OAuth flow failed for ${source}:`, error);
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			new Notice(`Failed to connect ${displayName}: ${errorMessage}`);
+			return false;
+		}
+	}
 
-		this.services.set('spotify', spotifyService);
+	/**
+	 * Get the configured backfill limit for a source
+	 */
+	getBackfillLimit(source: DataSource): BackfillLimit {
+		return this.plugin.settings.backfillLimits[source] ?? { maxAgeDays: 0, maxItems: 0 };
 	}
 
 	/**
-	 * Initialize YNAB service
+	 * Update the backfill limit for a source, including its running service
 	 */
-	private async initializeYNABService(): Promise<void> {
-		// Decrypt YNAB token
-		const apiToken = await this.plugin.decryptSetting('ynabToken');
-		if (!apiToken) return;
+	async setBackfillLimit(source: DataSource, limit: BackfillLimit): Promise<void> {
+		this.plugin.settings.backfillLimits = {
+			...this.plugin.settings.backfillLimits,
+			[source]: limit,
+		};
+		await this.plugin.saveSettings();
 
-		const ynabService = new YNABService(apiToken);
+		this.services.get(source)?.setBackfillLimit(limit);
+	}
+
+	/**
+	 * Get how often a source syncs, in minutes (0 = manual only)
+	 * Sources without their own interval use the global sync interval
+	 */
+	getSyncInterval(source: DataSource): number {
+		return this.plugin.settings.sourceSyncIntervals[source] ?? this.plugin.settings.syncIntervalMinutes;
+	}
+
+	/**
+	 * Update how often a source syncs and reschedule its next run
+	 */
+	async setSyncInterval(source: DataSource, minutes: number | undefined): Promise<void> {
+		const intervals = { ...this.plugin.settings.sourceSyncIntervals };
+		if (minutes === undefined) {
+			delete intervals[source];
+		} else {
+			intervals[source] = minutes;
+		}
+		this.plugin.settings.sourceSyncIntervals = intervals;
+		await this.plugin.saveSettings();
+
+		const interval = this.getSyncInterval(source);
+		this.services.get(source)?.setSyncInterval(interval);
+
+		// Next run counts from the last sync, so shortening an interval takes effect now
+		const state = await this.db.getSyncState(source);
+		if (state) {
+			await this.db.updateSyncState(source, {
+				nextSync: state.lastSync + interval * 60 * 1000,
+			});
+		}
+	}
+
+	/**
+	 * Data types the user chose not to import from a source
+	 */
+	getExcludedDataTypes(source: DataSource): string[] {
+		return this.plugin.settings.excludedDataTypes[source] ?? [];
+	}
+
+	/**
+	 * Check if a source must be reviewed before its first sync
+	 * Sources that synced before reviews existed don't need one
+	 */
+	async needsReview(source: DataSource): Promise<boolean> {
+		// Imports are reviewed file by file as they are imported
+		if (this.isImportOnly(source) || this.plugin.settings.reviewedSources.includes(source)) {
+			return false;
+		}
+
+		const state = await this.db.getSyncState(source);
+		return !state?.lastSync;
+	}
+
+	/**
+	 * Connected sources waiting for their initial import review
+	 */
+	async getSourcesAwaitingReview(): Promise<DataSource[]> {
+		const pending: DataSource[] = [];
+		for (const [source, service] of this.services) {
+			if (service.isAuthenticated() && (await this.needsReview(source))) {
+				pending.push(source);
+			}
+		}
+		return pending;
+	}
+
+	/**
+	 * Count and sample what a source would import, without caching anything
+	 */
+	async previewSource(source: DataSource): Promise<DataTypePreview[]> {
+		const service = this.services.get(source);
+		if (!service?.isAuthenticated()) {
+			throw new Error(`${source} not connected`);
+		}
+
+		// A service can't preview and sync at the same time - unreviewed sources never sync
+		if (this.isSyncing() && !(await this.needsReview(source))) {
+			throw new Error('Sync already running - try again when it finishes');
+		}
+
+		this.previewing.add(source);
+		try {
+			return await service.preview();
+		} finally {
+			this.previewing.delete(source);
+		}
+	}
+
+	/**
+	 * Save the data types excluded from a source and mark it reviewed
+	 */
+	async saveImportReview(source: DataSource, excludedDataTypes: string[]): Promise<void> {
+		this.plugin.settings.excludedDataTypes = {
+			...this.plugin.settings.excludedDataTypes,
+			[source]: excludedDataTypes,
+		};
+		if (!this.plugin.settings.reviewedSources.includes(source)) {
+			this.plugin.settings.reviewedSources = [...this.plugin.settings.reviewedSources, source];
+		}
+		await this.plugin.saveSettings();
 
-		this.services.set('ynab', ynabService);
+		this.services.get(source)?.setExcludedDataTypes(excludedDataTypes);
+	}
+
+	/**
+	 * Path of the note holding exclusion rules
+	 */
+	getFiltersPath(): string {
+		return `${this.plugin.settings.systemFolderPath}/filters.md`;
+	}
+
+	/**
+	 * Read exclusion rules from settings and the filters note
+	 */
+	async loadExclusionRules(): Promise<ExclusionMatcher> {
+		const sources = this.plugin.dataSources.getIds();
+		const parsed = [parseExclusionRules(this.plugin.settings.exclusionRules, 'settings', sources)];
+
+		const filtersFile = this.plugin.app.vault.getAbstractFileByPath(this.getFiltersPath());
+		if (filtersFile instanceof TFile) {
+			const text = await this.plugin.app.vault.cachedRead(filtersFile);
+			parsed.push(parseExclusionRules(text, filtersFile.name, sources));
+		}
+
+		const errors = parsed.flatMap((p) => p.errors);
+		if (errors.length > 0) {
+			console.error('Invalid exclusion rules:', errors);
+			new Notice(`Ignoring ${errors.length} invalid exclusion rule(s) - see console for details`);
+		}
+
+		return new ExclusionMatcher(parsed.flatMap((p) => p.rules));
+	}
+
+	/**
+	 * Reload exclusion rules, hand them to every service and purge newly excluded items
+	 * The purge only runs when the rules changed since it last ran
+	 */
+	async applyExclusionRules(): Promise<number> {
+		const matcher = await this.loadExclusionRules();
+		this.exclusionMatcher = matcher;
+		for (const service of this.services.values()) {
+			service.setExclusionMatcher(matcher);
+		}
+
+		const fingerprint = matcher.getFingerprint();
+		if (fingerprint === this.plugin.settings.appliedExclusionRules) {
+			return 0;
+		}
+
+		const purged = await this.purgeExcludedData(matcher);
+
+		this.plugin.settings.appliedExclusionRules = fingerprint;
+		await this.plugin.saveSettings();
+
+		return purged;
+	}
+
+	/**
+	 * Delete cached items matching the rules, and Weave facts that came only from them
+	 */
+	private async purgeExcludedData(matcher: ExclusionMatcher): Promise<number> {
+		const purged: CachedData[] = [];
+
+		for (const source of matcher.getSources()) {
+			const matching = await this.db.cachedData
+				.where('source')
+				.equals(source)
+				.filter((item) => !!matcher.match(item.source, item.dataType, item.data))
+				.toArray();
+
+			await this.db.cachedData.bulkDelete(matching.map((item) => item.id!));
+			purged.push(...matching);
+		}
+
+		if (purged.length === 0) {
+			return 0;
+		}
+
+		const { entitiesRemoved } = await this.plugin.weaveManager.forgetCachedItems(purged);
+
+		console.log(`Exclusion rules purged ${purged.length} cached items and ${entitiesRemoved} entities`);
+		new Notice(`Removed ${purged.length} excluded items from the cache`);
+
+		return purged.length;
 	}
 
 	/**
@@ -143,32 +557,148 @@ export class SyncManager {
 			return null;
 		}
 
-		new Notice(`Syncing ${service.getDisplayName()}...`);
+		const results = await this.runSync([source], 'manual');
+		return results.get(source) || null;
+	}
 
-		const result = await service.sync();
+	/**
+	 * Sync all connected services
+	 * Joins the running sync instead of starting a second one
+	 */
+	async syncAll(trigger: SyncRun['trigger'] = 'manual'): Promise<Map<DataSource, SyncResult>> {
+		const sources = Array.from(this.services.keys()).filter((source) => !this.isImportOnly(source));
+		return await this.runSync(sources, trigger);
+	}
 
-		return result;
+	/**
+	 * Cache items parsed from an imported file
+	 * Runs as a sync of the import-only source, so exclusions, history and extraction apply
+	 */
+	async importItems(source: DataSource, items: FetchedDataItem[]): Promise<SyncResult | null> {
+		const service = this.services.get(source);
+		if (!(service instanceof FileImportService)) {
+			throw new Error(`${source} does not import files`);
+		}
+
+		// A running sync would be joined instead, leaving the items staged
+		if (this.isSyncing()) {
+			throw new Error('Sync already running - try again when it finishes');
+		}
+
+		service.stageItems(items);
+		const results = await this.runSync([source], 'import');
+		return results.get(source) ?? null;
 	}
 
 	/**
-	 * Sync all connected services
+	 * Check if a source only receives imported files
 	 */
-	async syncAll(): Promise<Map<DataSource, SyncResult>> {
-		const results = new Map<DataSource, SyncResult>();
+	private isImportOnly(source: DataSource): boolean {
+		return this.plugin.dataSources.get(source)?.importOnly === true;
+	}
 
-		for (const [source, service] of this.services) {
-			if (!service.isAuthenticated()) {
+	/**
+	 * Sync the given sources (used by the scheduler)
+	 */
+	async syncSources(
+		sources: DataSource[],
+		trigger: SyncRun['trigger'] = 'scheduled'
+	): Promise<Map<DataSource, SyncResult>> {
+		return await this.runSync(sources, trigger);
+	}
+
+	/**
+	 * Sync the given sources concurrently, up to the configured limit
+	 */
+	private async runSync(
+		sources: DataSource[],
+		trigger: SyncRun['trigger']
+	): Promise<Map<DataSource, SyncResult>> {
+		if (this.activeSync) {
+			console.log('Sync already running - waiting for it to finish');
+			return await this.activeSync.promise;
+		}
+
+		const controller = new AbortController();
+		const promise = this.executeSync(sources, trigger, controller.signal);
+		this.activeSync = { controller, promise };
+
+		try {
+			return await promise;
+		} finally {
+			this.activeSync = null;
+		}
+	}
+
+	/**
+	 * Run one sync job per source and report the outcome
+	 */
+	private async executeSync(
+		sources: DataSource[],
+		trigger: SyncRun['trigger'],
+		signal: AbortSignal
+	): Promise<Map<DataSource, SyncResult>> {
+		// Pick up edits to the filters note
+		try {
+			await this.applyExclusionRules();
+		} catch (error) {
+			console.error('Failed to apply exclusion rules:', error);
+		}
+
+		const jobs: SyncJob<SyncResult>[] = [];
+		const names: string[] = [];
+		const entries: SyncRunSource[] = [];
+
+		for (const source of sources) {
+			const service = this.services.get(source);
+			if (!service?.isAuthenticated()) {
 				console.log(`Skipping ${source} - not authenticated`);
 				continue;
 			}
 
-			new Notice(`Syncing ${service.getDisplayName()}...`);
+			// Nothing is cached until the user has reviewed what will be imported
+			if (await this.needsReview(source)) {
+				console.log(`Skipping ${source} - initial import not reviewed yet`);
+				continue;
+			}
+
+			if (this.previewing.has(source)) {
+				console.log(`Skipping ${source} - import preview in progress`);
+				continue;
+			}
+
+			names.push(service.getDisplayName());
+			jobs.push({
+				id: source,
+				run: async () => {
+					const startedAt = Date.now();
+					const result = await service.sync({
+						signal,
+						onProgress: (progress) => this.emitProgress(progress),
+					});
+					entries.push(await this.history.buildSourceEntry(source, startedAt, result));
+					return result;
+				},
+			});
+		}
 
-			const result = await service.sync();
-			results.set(source, result);
+		if (names.length > 0) {
+			new Notice(`Syncing ${names.join(', ')}...`);
+		}
 
-			// Small delay between services
-			await new Promise((resolve) => setTimeout(resolve, 1000));
+		if (jobs.length === 0) {
+			return new Map();
+		}
+
+		const runId = await this.history.startRun(trigger);
+		const queue = new SyncJobQueue(this.plugin.settings.syncConcurrency);
+		const results = (await queue.runAll(jobs, signal)) as Map<DataSource, SyncResult>;
+
+		await this.history.finishRun(runId, entries, signal.aborted);
+
+		if (signal.aborted) {
+			new Notice('Sync cancelled');
+			return results;
 		}
 
 		// Update last sync timestamp in settings
@@ -180,6 +710,10 @@ export class SyncManager {
 			(sum, r) => sum + r.itemsProcessed,
 			0
 		);
+		const changedItems = Array.from(results.values()).reduce(
+			(sum, r) => sum + r.itemsAdded + r.itemsUpdated,
+			0
+		);
 		const errorCount = Array.from(results.values()).reduce(
 			(sum, r) => sum + r.errors.length,
 			0
@@ -190,44 +724,116 @@ export class SyncManager {
 				`Sync completed with errors: ${totalItems} items, ${errorCount} errors`
 			);
 		} else {
-			new Notice(`Sync completed successfully: ${totalItems} items processed`);
+			new Notice(`Sync completed successfully: ${totalItems} items processed, ${changedItems} new or changed`);
 		}
 
 		return results;
 	}
 
 	/**
-	 * Start automatic sync interval
+	 * Check if a sync is running
 	 */
-	startSyncInterval(): void {
-		if (this.syncInterval !== null) {
-			this.stopSyncInterval();
-		}
+	isSyncing(): boolean {
+		return this.activeSync !== null;
+	}
 
-		const intervalMinutes = this.plugin.settings.syncIntervalMinutes;
-		if (intervalMinutes <= 0) {
-			return;
+	/**
+	 * Cancel the running sync
+	 * Services stop before their next request; saved cursors let the next sync resume
+	 */
+	cancelSync(): boolean {
+		if (!this.activeSync) {
+			return false;
 		}
 
-		const intervalMs = intervalMinutes * 60 * 1000;
+		this.activeSync.controller.abort();
+		return true;
+	}
 
-		this.syncInterval = window.setInterval(async () => {
-			console.log('Running scheduled sync...');
-			await this.syncAll();
-		}, intervalMs);
+	/**
+	 * Listen for sync progress
+	 * Returns a function that removes the listener
+	 */
+	onProgress(callback: SyncProgressCallback): () => void {
+		this.progressListeners.add(callback);
+		return () => this.progressListeners.delete(callback);
+	}
 
-		console.log(`Sync interval started: ${intervalMinutes} minutes`);
+	/**
+	 * Forward a progress event to every listener
+	 */
+	private emitProgress(progress: Parameters<SyncProgressCallback>[0]): void {
+		for (const listener of this.progressListeners) {
+			try {
+				listener(progress);
+			} catch (error) {
+				console.error('Sync progress listener failed:', error);
+			}
+		}
 	}
 
 	/**
-	 * Stop automatic sync interval
+	 * Reset all sync cursors and refetch everything
 	 */
-	stopSyncInterval(): void {
-		if (this.syncInterval !== null) {
-			window.clearInterval(this.syncInterval);
-			this.syncInterval = null;
-			console.log('Sync interval stopped');
+	async fullResync(): Promise<Map<DataSource, SyncResult>> {
+		// Resetting cursors under a running sync would corrupt its checkpoints
+		if (this.isSyncing()) {
+			new Notice('Sync already running - try again when it finishes');
+			return new Map();
 		}
+
+		await this.db.resetSyncCursors();
+		new Notice('Sync cursors reset - running full resync');
+
+		return await this.syncAll('full_resync');
+	}
+
+	/**
+	 * Start the per-source sync scheduler, the retention purge and note re-indexing
+	 */
+	startScheduler(): void {
+		this.scheduler.start();
+		this.retention.start();
+		this.noteWatcher.start();
+	}
+
+	/**
+	 * Stop the sync scheduler, the retention purge and note re-indexing
+	 */
+	stopScheduler(): void {
+		this.scheduler.stop();
+		this.retention.stop();
+		this.noteWatcher.stop();
+	}
+
+	/**
+	 * Drop cached notes outside the vault note folders once the setting settles
+	 */
+	onNoteFoldersChanged(): void {
+		this.noteWatcher.onFoldersChanged();
+	}
+
+	/**
+	 * Connected sources that sync automatically
+	 * Sources being previewed for review are left out until the review is done
+	 */
+	getScheduledSources(): DataSource[] {
+		return Array.from(this.services.entries())
+			.filter(
+				([source, service]) =>
+					service.isAuthenticated() &&
+					!this.isImportOnly(source) &&
+					!this.previewing.has(source) &&
+					this.getSyncInterval(source) > 0
+			)
+			.map(([source]) => source);
+	}
+
+	/**
+	 * Check if the master password is locked
+	 */
+	isLocked(): boolean {
+		return this.plugin.getMasterPassword() === null;
 	}
 
 	/**
@@ -241,13 +847,15 @@ export class SyncManager {
 				lastSync: number;
 				nextSync: number;
 				status: string;
+				errorMessage?: string;
+				errorType?: SyncErrorType;
 			}
 		>
 	> {
 		const status = new Map();
 
-		for (const source of ['google', 'spotify', 'ynab'] as DataSource[]) {
-			const syncState = await db.getSyncState(source);
+		for (const source of this.plugin.dataSources.getIds()) {
+			const syncState = await this.db.getSyncState(source);
 			const connected = this.isServiceConnected(source);
 
 			status.set(source, {
@@ -255,12 +863,29 @@ export class SyncManager {
 				lastSync: syncState?.lastSync || 0,
 				nextSync: syncState?.nextSync || 0,
 				status: syncState?.status || 'idle',
+				errorMessage: syncState?.errorMessage,
+				errorType: syncState?.errorType,
 			});
 		}
 
 		return status;
 	}
 
+	/**
+	 * Which built-in sources are connected
+	 * Apple Health has no connection, so it counts once an export has been imported
+	 */
+	async getDataSourceStatus(): Promise<DataSourceStatus> {
+		const healthState = await this.db.getSyncState(HEALTH_SOURCE);
+
+		return {
+			google: this.isServiceConnected('google'),
+			spotify: this.isServiceConnected('spotify'),
+			ynab: this.isServiceConnected('ynab'),
+			healthKit: (healthState?.lastSync ?? 0) > 0,
+		};
+	}
+
 	/**
 	 * Remove a service (disconnect)
 	 */
@@ -272,7 +897,10 @@ export class SyncManager {
 	 * Cleanup
 	 */
 	cleanup(): void {
-		this.stopSyncInterval();
+		this.stopScheduler();
+		this.cancelSync();
+		this.progressListeners.clear();
+		this.changeFeed.clear();
 		this.services.clear();
 	}
 }
@@ -0,0 +1,47 @@
+/**
+ * Sync job queue
+ * Runs independent sync jobs concurrently, up to a limit
+ */
+
+/**
+ * A unit of work in the queue
+ */
+export interface SyncJob<T> {
+	id: string;
+	run: () => Promise<T>;
+}
+
+/**
+ * Job queue with a concurrency limit
+ */
+export class SyncJobQueue {
+	private concurrency: number;
+
+	constructor(concurrency: number) {
+		this.concurrency = Math.max(1, concurrency);
+	}
+
+	/**
+	 * Run all jobs and collect their results by job ID
+	 * Jobs not yet started when the signal aborts are skipped
+	 */
+	async runAll<T>(jobs: SyncJob<T>[], signal?: AbortSignal): Promise<Map<string, T>> {
+		const results = new Map<string, T>();
+		const pending = [...jobs];
+
+		const worker = async () => {
+			while (pending.length > 0 && !signal?.aborted) {
+				const job = pending.shift()!;
+				results.set(job.id, await job.run());
+			}
+		};
+
+		const workers = Array.from(
+			{ length: Math.min(this.concurrency, jobs.length) },
+			() => worker()
+		);
+		await Promise.all(workers);
+
+		return results;
+	}
+}
@@ -0,0 +1,138 @@
+/**
+ * Sync scheduler
+ * Runs each source when its persisted nextSync is due, and catches up on runs
+ * missed while the computer slept or Obsidian was closed
+ */
+
+import { GenerousAIDatabase } from '../database';
+import { DataSource } from './types';
+
+/**
+ * How often the scheduler checks for due sources
+ */
+const TICK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * What the scheduler needs from the sync manager
+ */
+export interface SchedulerHost {
+	getScheduledSources(): DataSource[]; // Connected sources with a schedule
+	needsReview(source: DataSource): Promise<boolean>; // Initial import not reviewed yet
+	isLocked(): boolean; // Master password not entered
+	isSyncing(): boolean;
+	syncSources(sources: DataSource[]): Promise<unknown>;
+}
+
+/**
+ * Per-source sync scheduler
+ */
+export class SyncScheduler {
+	private host: SchedulerHost;
+	private db: GenerousAIDatabase;
+	private timer: number | null = null;
+	private lastTick = 0;
+	private onVisibilityChange = () => {
+		if (document.visibilityState === 'visible') {
+			void this.tick();
+		}
+	};
+
+	constructor(host: SchedulerHost, database: GenerousAIDatabase) {
+		this.host = host;
+		this.db = database;
+	}
+
+	/**
+	 * Start checking for due sources
+	 * Runs a check immediately so runs missed while Obsidian was closed happen now
+	 */
+	start(): void {
+		this.stop();
+
+		this.lastTick = Date.now();
+		this.timer = window.setInterval(() => void this.tick(), TICK_INTERVAL_MS);
+
+		// Waking from sleep often shows the window again before the next tick
+		document.addEventListener('visibilitychange', this.onVisibilityChange);
+
+		void this.tick();
+		console.log('Sync scheduler started');
+	}
+
+	/**
+	 * Stop the scheduler
+	 */
+	stop(): void {
+		if (this.timer !== null) {
+			window.clearInterval(this.timer);
+			this.timer = null;
+			document.removeEventListener('visibilitychange', this.onVisibilityChange);
+			console.log('Sync scheduler stopped');
+		}
+	}
+
+	/**
+	 * Check if the scheduler is running
+	 */
+	isRunning(): boolean {
+		return this.timer !== null;
+	}
+
+	/**
+	 * Sync every source whose nextSync has passed
+	 */
+	async tick(): Promise<void> {
+		const now = Date.now();
+
+		// Timers don't fire during sleep, so a long gap means we just woke up
+		if (this.lastTick > 0 && now - this.lastTick > TICK_INTERVAL_MS * 2) {
+			console.log(`Sync scheduler resumed after ${Math.round((now - this.lastTick) / 60000)} minutes - catching up`);
+		}
+		this.lastTick = now;
+
+		if (this.host.isLocked()) {
+			return;
+		}
+
+		if (this.host.isSyncing()) {
+			console.log('Skipping scheduled sync - a sync is already running');
+			return;
+		}
+
+		const due = await this.getDueSources(now);
+		if (due.length === 0) {
+			return;
+		}
+
+		console.log(`Running scheduled sync for ${due.join(', ')}`);
+
+		try {
+			await this.host.syncSources(due);
+		} catch (error) {
+			console.error('Scheduled sync failed:', error);
+		}
+	}
+
+	/**
+	 * Sources whose nextSync is due (never-synced sources are due once reviewed)
+	 */
+	async getDueSources(now: number = Date.now()): Promise<DataSource[]> {
+		const due: DataSource[] = [];
+
+		for (const source of this.host.getScheduledSources()) {
+			const state = await this.db.getSyncState(source);
+			if (state && state.nextSync > now) {
+				continue;
+			}
+
+			// Syncing would only be skipped until the user reviews the first import
+			if (await this.host.needsReview(source)) {
+				continue;
+			}
+
+			due.push(source);
+		}
+
+		return due;
+	}
+}
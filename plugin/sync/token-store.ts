@@ -0,0 +1,139 @@
+/**
+ * Token store
+ * Persists OAuth tokens for sync services and tracks refresh history
+ */
+
+import GenerousAIPlugin from '../main';
+import { OAuthTokenState } from '../types';
+import { DataSource, OAuthDataSource, OAuthTokens } from './types';
+
+/**
+ * Settings keys holding encrypted tokens for each OAuth source
+ */
+const TOKEN_SETTING_KEYS: Record<OAuthDataSource, 'googleTokens' | 'spotifyTokens'> = {
+	google: 'googleTokens',
+	spotify: 'spotifyTokens',
+};
+
+/**
+ * Number of refreshes kept per source
+ */
+const MAX_ROTATION_HISTORY = 10;
+
+/**
+ * Storage notified by sync services whenever their tokens change
+ */
+export interface TokenStore {
+	saveTokens(source: DataSource, tokens: OAuthTokens, previous?: OAuthTokens | null): Promise<void>;
+	markReauthorizationRequired(source: DataSource, reason: string): Promise<void>;
+	isReauthorizationRequired(source: DataSource): boolean;
+}
+
+/**
+ * Token store backed by the plugin's encrypted settings
+ */
+export class EncryptedSettingsTokenStore implements TokenStore {
+	private plugin: GenerousAIPlugin;
+
+	constructor(plugin: GenerousAIPlugin) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Re-encrypt tokens into settings and record the rotation
+	 */
+	async saveTokens(
+		source: DataSource,
+		tokens: OAuthTokens,
+		previous?: OAuthTokens | null
+	): Promise<void> {
+		if (!this.isOAuthSource(source)) {
+			return; // API-token sources have nothing to persist
+		}
+
+		const state = this.getState(source);
+
+		// Initial connects have no previous tokens and are not rotations
+		if (previous) {
+			state.rotationHistory = [
+				...state.rotationHistory,
+				{
+					rotatedAt: Date.now(),
+					expiresAt: tokens.expires_at,
+					refreshTokenRotated:
+						!!tokens.refresh_token && tokens.refresh_token !== previous.refresh_token,
+				},
+			].slice(-MAX_ROTATION_HISTORY);
+		}
+
+		state.reauthorizationRequired = false;
+		delete state.reauthorizationReason;
+		this.setState(source, state);
+
+		// Saves settings, including the state above
+		await this.plugin.encryptAndSaveSetting(
+			TOKEN_SETTING_KEYS[source],
+			JSON.stringify(tokens)
+		);
+	}
+
+	/**
+	 * Flag a source whose refresh token was revoked
+	 */
+	async markReauthorizationRequired(source: DataSource, reason: string): Promise<void> {
+		if (!this.isOAuthSource(source)) {
+			return;
+		}
+
+		const state = this.getState(source);
+		state.reauthorizationRequired = true;
+		state.reauthorizationReason = reason;
+		this.setState(source, state);
+
+		await this.plugin.saveSettings();
+	}
+
+	/**
+	 * Check if the user must reconnect a source
+	 */
+	isReauthorizationRequired(source: DataSource): boolean {
+		return this.plugin.settings.oauthTokenState[source]?.reauthorizationRequired ?? false;
+	}
+
+	/**
+	 * Get refresh history for a source, oldest first
+	 */
+	getRotationHistory(source: DataSource): OAuthTokenState['rotationHistory'] {
+		return this.plugin.settings.oauthTokenState[source]?.rotationHistory ?? [];
+	}
+
+	/**
+	 * Replace a source's state without mutating the loaded settings object,
+	 * which starts out shared with DEFAULT_SETTINGS
+	 */
+	private setState(source: OAuthDataSource, state: OAuthTokenState): void {
+		this.plugin.settings.oauthTokenState = {
+			...this.plugin.settings.oauthTokenState,
+			[source]: state,
+		};
+	}
+
+	/**
+	 * Get a copy of the stored state for a source
+	 */
+	private getState(source: OAuthDataSource): OAuthTokenState {
+		const existing = this.plugin.settings.oauthTokenState[source];
+		return {
+			reauthorizationRequired: existing?.reauthorizationRequired ?? false,
+			reauthorizationReason: existing?.reauthorizationReason,
+			rotationHistory: existing?.rotationHistory ?? [],
+		};
+	}
+
+	/**
+	 * Check if a source stores OAuth tokens
+	 */
+	private isOAuthSource(source: DataSource): source is OAuthDataSource {
+		return source in TOKEN_SETTING_KEYS;
+	}
+}
@@ -26,6 +26,33 @@ export interface OAuthConfig {
 	redirectUri: string;
 }
 
+/**
+ * OAuth client credentials entered in settings
+ * Undefined secrets are left unchanged; empty URLs fall back to the provider defaults
+ */
+export interface OAuthClientCredentials {
+	clientId?: string;
+	clientSecret?: string;
+	authUrl: string;
+	tokenUrl: string;
+}
+
+/**
+ * PKCE code verifier and its S256 challenge
+ */
+export interface PKCEPair {
+	codeVerifier: string;
+	codeChallenge: string;
+}
+
+/**
+ * Options for an interactive OAuth flow
+ */
+export interface OAuthFlowOptions {
+	timeoutMs?: number; // How long to wait for the user to authorize
+	openUrl?: (url: string) => void; // Defaults to opening the system browser
+}
+
 /**
  * Sync result for a single service
  */
@@ -34,6 +61,7 @@ export interface SyncResult {
 	itemsProcessed: number;
 	itemsAdded: number;
 	itemsUpdated: number;
+	itemsUnchanged: number; // Re-fetched with identical content
 	errors: string[];
 	lastSyncTimestamp: number;
 }
@@ -44,9 +72,70 @@ export interface SyncResult {
 export type SyncStatus = 'idle' | 'syncing' | 'success' | 'error';
 
 /**
- * Data source type
+ * Kind of failure recorded in the sync status
+ */
+export type SyncErrorType = 'auth' | 'rate_limit' | 'network' | 'http' | 'unknown';
+
+/**
+ * Token bucket settings for a provider
+ */
+export interface RateLimitConfig {
+	capacity: number; // Burst size
+	refillPerSecond: number; // Sustained request rate
+}
+
+/**
+ * Outgoing HTTP request
+ */
+export interface HttpRequest {
+	url: string;
+	method?: string; // Defaults to GET
+	headers?: Record<string, string>;
+	body?: string;
+}
+
+/**
+ * HTTP response, shaped like the parts of fetch's Response the plugin uses
+ */
+export interface HttpResponse {
+	status: number;
+	ok: boolean;
+	headers: Record<string, string>; // Lowercase header names
+	text(): Promise<string>;
+	json(): Promise<any>;
+}
+
+/**
+ * Sends HTTP requests - swap implementations to change how (or whether) requests go out
  */
-export type DataSource = 'google' | 'spotify' | 'ynab';
+export interface HttpTransport {
+	request(request: HttpRequest): Promise<HttpResponse>;
+}
+
+/**
+ * Options for RecordReplayTransport
+ */
+export interface RecordReplayOptions {
+	mode: 'record' | 'replay';
+	fixturesDir: string; // Absolute path to the fixture files
+	ignoredParams?: string[]; // Query parameters left out when matching requests
+}
+
+/**
+ * Data sources that ship with the plugin
+ */
+export type BuiltInDataSource = 'google' | 'spotify' | 'ynab';
+
+/**
+ * Data source id - a built-in source or one added with registerDataSource()
+ * (`string & {}` keeps editor completion for the built-in ids)
+ */
+export type DataSource = BuiltInDataSource | (string & {});
+
+/**
+ * Data sources that authenticate via OAuth
+ */
+export type OAuthDataSource = Extract<BuiltInDataSource, 'google' | 'spotify'>;
 
 /**
  * Fetched data item
@@ -60,6 +149,68 @@ export interface FetchedDataItem {
 	metadata?: any;
 }
 
+/**
+ * A cached item that a sync added or modified
+ */
+export interface CachedDataChange {
+	source: DataSource;
+	dataType: string;
+	externalId: string;
+	change: 'added' | 'updated';
+	data: any;
+	changedAt: number;
+}
+
+/**
+ * Rule keeping matching items out of the cache
+ */
+export interface ExclusionRule {
+	source: DataSource;
+	dataType: string; // '*' for every data type
+	field: string; // e.g. 'sender', 'label', 'account', 'context'
+	value: string; // Case-insensitive, '*' wildcards
+	origin: string; // Where the rule was declared, e.g. 'filters.md:12'
+}
+
+/**
+ * What the first sync of one data type would import
+ */
+export interface DataTypePreview {
+	source: DataSource;
+	dataType: string;
+	count: number;
+	estimated: boolean; // Count is the provider's estimate or a lower bound
+	samples: FetchedDataItem[];
+}
+
+/**
+ * One page from a paginated endpoint
+ */
+export interface FetchedPage<T> {
+	items: T[];
+	nextPageToken?: string; // Absent on the last page
+	totalItems?: number; // Provider's estimate of all items across pages, if known
+}
+
+/**
+ * Options for BaseSyncService.fetchPaginated
+ */
+export interface PaginationOptions<T> {
+	checkpointKey?: string; // Data type whose cursor stores the resume point
+	maxItems?: number; // 0 or undefined = unlimited
+	readToLastPage?: boolean; // Keep paging past maxItems, without handing items to onPage (e.g. for a sync token)
+	params?: Record<string, string>; // Request parameters, restored when resuming
+	onPage?: (items: T[]) => Promise<void>; // Runs before each page is checkpointed
+}
+
+/**
+ * Options for a single service sync
+ */
+export interface SyncRunOptions {
+	signal?: AbortSignal; // Aborting stops the sync between requests
+	onProgress?: SyncProgressCallback;
+}
+
 /**
  * Sync progress callback
  */
@@ -70,3 +221,16 @@ export type SyncProgressCallback = (progress: {
 	itemsProcessed?: number;
 	totalItems?: number;
 }) => void;
+
+/**
+ * How a data source authenticates
+ */
+export type DataSourceAuthKind = 'oauth' | 'api_key' | 'none';
+
+/**
+ * One kind of item a data source imports
+ */
+export interface DataTypeDescriptor {
+	id: string; // Stored as CachedData.dataType
+	label: string; // e.g. 'Emails'
+}
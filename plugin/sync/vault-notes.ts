@@ -0,0 +1,389 @@
+/**
+ * Vault notes source
+ * Indexes notes from folders the user picks (journal, daily notes, meeting notes) so they
+ * reach the Weave like any synced item
+ */
+
+import { EventRef, TAbstractFile, TFile, Vault } from 'obsidian';
+import GenerousAIPlugin from '../main';
+import { CachedData } from '../database';
+import { GenerousAISettings } from '../types';
+import { BaseSyncService } from './base-service';
+import { FetchedDataItem, SyncResult } from './types';
+
+/**
+ * Source id notes are cached and credited under
+ */
+export const VAULT_NOTES_SOURCE = 'vault';
+
+/**
+ * Data type notes are cached under
+ */
+export const NOTE_DATA_TYPE = 'note';
+
+/**
+ * Notes read and cached per transaction
+ */
+const NOTE_BATCH_SIZE = 100;
+
+/**
+ * Quiet period after an edit before the note is re-indexed, so typing doesn't
+ * trigger an extraction on every autosave
+ */
+const NOTE_INDEX_DELAY_MS = 60 * 1000;
+
+/**
+ * Folder setting normalized for prefix matching ('' is the whole vault)
+ */
+function normalizeFolder(folder: string): string {
+	return folder.trim().replace(/^\/+|\/+$/g, '');
+}
+
+function isInFolder(path: string, folder: string): boolean {
+	return folder === '' || path === folder || path.startsWith(`${folder}/`);
+}
+
+/**
+ * Service that caches notes from the selected folders
+ * A sync reads notes modified since the last one; a change to the folder list reads them all again
+ */
+export class VaultNotesService extends BaseSyncService {
+	private vault: Vault;
+	private getSettings: () => GenerousAISettings;
+	private forgetNotes: (notes: CachedData[]) => Promise<unknown>;
+
+	constructor(
+		vault: Vault,
+		getSettings: () => GenerousAISettings,
+		forgetNotes: (notes: CachedData[]) => Promise<unknown>
+	) {
+		super(VAULT_NOTES_SOURCE);
+		this.vault = vault;
+		this.getSettings = getSettings;
+		this.forgetNotes = forgetNotes;
+	}
+
+	/**
+	 * Connected once at least one folder is selected
+	 */
+	isAuthenticated(): boolean {
+		return this.getFolders().length > 0;
+	}
+
+	/**
+	 * Check if a vault file is a note this source indexes
+	 * The plugin's own folders are never indexed
+	 */
+	isIndexed(file: TAbstractFile): file is TFile {
+		return file instanceof TFile && this.isIndexedPath(file.path);
+	}
+
+	/**
+	 * Check if a note at this path would be indexed (the file may no longer exist)
+	 */
+	isIndexedPath(path: string): boolean {
+		if (!path.toLowerCase().endsWith('.md')) {
+			return false;
+		}
+
+		const { systemFolderPath, userFolderPath } = this.getSettings();
+		const skipped = [systemFolderPath, userFolderPath].map(normalizeFolder).filter((folder) => folder);
+		if (skipped.some((folder) => isInFolder(path, folder))) {
+			return false;
+		}
+
+		return this.getFolders().some((folder) => isInFolder(path, folder));
+	}
+
+	/**
+	 * Cache notes edited outside a sync run
+	 */
+	async indexNotes(files: TFile[]): Promise<void> {
+		const notes = files.filter((file) => this.isIndexed(file));
+		if (notes.length === 0 || this.isExcluded(NOTE_DATA_TYPE)) {
+			return;
+		}
+
+		await this.cacheData(await this.readNotes(notes));
+	}
+
+	/**
+	 * Remove cached notes that were deleted or moved away, and the Weave facts from them
+	 */
+	async removeNotes(paths: string[]): Promise<number> {
+		if (paths.length === 0) {
+			return 0;
+		}
+
+		const notes = await this.db.cachedData
+			.where('[source+dataType+externalId]')
+			.anyOf(paths.map((path) => [VAULT_NOTES_SOURCE, NOTE_DATA_TYPE, path]))
+			.toArray();
+		return await this.deleteCachedNotes(notes);
+	}
+
+	/**
+	 * Remove cached notes that are gone or no longer in the selected folders
+	 */
+	async purgeUnindexedNotes(): Promise<number> {
+		const notes = await this.db.cachedData
+			.where('[source+dataType]')
+			.equals([VAULT_NOTES_SOURCE, NOTE_DATA_TYPE])
+			.filter((note) => {
+				const file = this.vault.getAbstractFileByPath(note.externalId);
+				return !file || !this.isIndexed(file);
+			})
+			.toArray();
+		return await this.deleteCachedNotes(notes);
+	}
+
+	protected async performSync(): Promise<Partial<SyncResult>> {
+		// Notes from folders that were deselected would otherwise stay cached
+		const cursor = await this.getCursor(NOTE_DATA_TYPE);
+		if (cursor && cursor.cursor !== this.getFolderSignature()) {
+			const removed = await this.purgeUnindexedNotes();
+			if (removed > 0) {
+				console.log(`Removed ${removed} note(s) outside the selected folders`);
+			}
+		}
+
+		const items = await this.fetchData();
+
+		for (let i = 0; i < items.length; i += NOTE_BATCH_SIZE) {
+			await this.cacheData(items.slice(i, i + NOTE_BATCH_SIZE));
+		}
+
+		const lastTimestamp = items.reduce((latest, item) => Math.max(latest, item.timestamp ?? 0), 0);
+		await this.saveCursor(NOTE_DATA_TYPE, {
+			lastTimestamp: Math.max(lastTimestamp, cursor?.lastTimestamp ?? 0),
+			cursor: this.getFolderSignature(),
+		});
+
+		return { itemsProcessed: items.length };
+	}
+
+	/**
+	 * Read notes modified since the last sync, newest first
+	 */
+	protected async fetchData(): Promise<FetchedDataItem[]> {
+		if (this.isExcluded(NOTE_DATA_TYPE)) {
+			return [];
+		}
+
+		// Selecting another folder brings in its older notes too
+		const cursor = await this.getCursor(NOTE_DATA_TYPE);
+		const incremental = cursor?.cursor === this.getFolderSignature() && cursor.lastTimestamp > 0;
+		const since = incremental ? cursor.lastTimestamp : (this.getBackfillStart() ?? 0);
+
+		let files = this.vault
+			.getMarkdownFiles()
+			.filter((file) => this.isIndexed(file) && file.stat.mtime > since)
+			.sort((a, b) => b.stat.mtime - a.stat.mtime);
+
+		if (!incremental && this.backfillLimit.maxItems > 0) {
+			files = files.slice(0, this.backfillLimit.maxItems);
+		}
+
+		const items: FetchedDataItem[] = [];
+		for (let i = 0; i < files.length; i += NOTE_BATCH_SIZE) {
+			this.throwIfAborted();
+			items.push(...(await this.readNotes(files.slice(i, i + NOTE_BATCH_SIZE))));
+			this.emitProgress('syncing', 'Reading notes', items.length, files.length);
+		}
+
+		// Previews are counted and sampled as items are cached
+		if (this.isPreviewing()) {
+			await this.cacheData(items);
+		}
+		return items;
+	}
+
+	/**
+	 * Note items keyed by path
+	 * The modification time is only the item's timestamp, so touching a note without
+	 * changing it doesn't count as a change
+	 */
+	private async readNotes(files: TFile[]): Promise<FetchedDataItem[]> {
+		const items: FetchedDataItem[] = [];
+
+		for (const file of files) {
+			try {
+				const content = await this.vault.cachedRead(file);
+				items.push({
+					id: file.path,
+					type: NOTE_DATA_TYPE,
+					source: VAULT_NOTES_SOURCE,
+					data: {
+						path: file.path,
+						title: file.basename,
+						folder: file.parent?.path ?? '',
+						content,
+						created: file.stat.ctime,
+					},
+					timestamp: file.stat.mtime,
+				});
+			} catch (error) {
+				console.error(`Failed to read note ${file.path}:`, error);
+			}
+		}
+
+		return items;
+	}
+
+	private async deleteCachedNotes(notes: CachedData[]): Promise<number> {
+		if (notes.length === 0) {
+			return 0;
+		}
+
+		await this.db.cachedData.bulkDelete(notes.map((note) => note.id!));
+		await this.forgetNotes(notes);
+		return notes.length;
+	}
+
+	private getFolders(): string[] {
+		return this.getSettings()
+			.vaultNoteFolders.filter((folder) => folder.trim())
+			.map(normalizeFolder);
+	}
+
+	private getFolderSignature(): string {
+		return JSON.stringify([...this.getFolders()].sort());
+	}
+}
+
+/**
+ * Re-indexes notes shortly after they are edited, and drops deleted or moved ones
+ */
+export class VaultNoteWatcher {
+	private plugin: GenerousAIPlugin;
+	private eventRefs: EventRef[] = [];
+	private pending = new Map<string, TFile>();
+	private removed = new Set<string>(); // Paths whose cached note should go
+	private foldersChanged = false;
+	private timer: number | null = null;
+
+	constructor(plugin: GenerousAIPlugin) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Watch the vault for edits, deletions and renames
+	 */
+	start(): void {
+		this.stop();
+		const vault = this.plugin.app.vault;
+		this.eventRefs = [
+			vault.on('modify', (file) => this.onModify(file)),
+			vault.on('delete', (file) => this.onDelete(file.path)),
+			vault.on('rename', (file, oldPath) => {
+				this.onDelete(oldPath);
+				this.onModify(file);
+			}),
+		];
+	}
+
+	/**
+	 * Stop watching and drop changes not applied yet
+	 */
+	stop(): void {
+		for (const ref of this.eventRefs) {
+			this.plugin.app.vault.offref(ref);
+		}
+		this.eventRefs = [];
+		if (this.timer !== null) {
+			window.clearTimeout(this.timer);
+			this.timer = null;
+		}
+		this.pending.clear();
+		this.removed.clear();
+		this.foldersChanged = false;
+	}
+
+	/**
+	 * Drop notes outside the selected folders once the folder setting stops changing
+	 */
+	onFoldersChanged(): void {
+		this.foldersChanged = true;
+		this.schedule();
+	}
+
+	private onModify(file: TAbstractFile): void {
+		const service = this.getService();
+		if (!service?.isAuthenticated() || !service.isIndexed(file)) {
+			return;
+		}
+
+		this.removed.delete(file.path);
+		this.pending.set(file.path, file);
+		this.schedule();
+	}
+
+	private onDelete(path: string): void {
+		const service = this.getService();
+		if (!service?.isIndexedPath(path)) {
+			return;
+		}
+
+		this.pending.delete(path);
+		this.removed.add(path);
+		this.schedule();
+	}
+
+	private schedule(): void {
+		if (this.timer !== null) {
+			window.clearTimeout(this.timer);
+		}
+		this.timer = window.setTimeout(() => {
+			this.timer = null;
+			this.flush().catch((error) => console.error('Failed to index edited notes:', error));
+		}, NOTE_INDEX_DELAY_MS);
+	}
+
+	/**
+	 * Apply the note changes, or wait if a sync is running or the source isn't reviewed yet
+	 */
+	private async flush(): Promise<void> {
+		const syncManager = this.plugin.syncManager;
+		const service = this.getService();
+		if (!service || (this.pending.size === 0 && this.removed.size === 0 && !this.foldersChanged)) {
+			return;
+		}
+
+		// The first sync of the source reviews and reads every note anyway
+		if (await syncManager.needsReview(VAULT_NOTES_SOURCE)) {
+			this.pending.clear();
+			this.removed.clear();
+			this.foldersChanged = false;
+			return;
+		}
+
+		if (syncManager.isSyncing()) {
+			this.schedule();
+			return;
+		}
+
+		const files = Array.from(this.pending.values());
+		const removed = Array.from(this.removed);
+		const foldersChanged = this.foldersChanged;
+		this.pending.clear();
+		this.removed.clear();
+		this.foldersChanged = false;
+
+		const removedCount = foldersChanged
+			? await service.purgeUnindexedNotes()
+			: await service.removeNotes(removed);
+		if (removedCount > 0) {
+			console.log(`Removed ${removedCount} deleted or deselected note(s)`);
+		}
+
+		if (files.length > 0) {
+			await service.indexNotes(files);
+			console.log(`Indexed ${files.length} edited note(s)`);
+		}
+	}
+
+	private getService(): VaultNotesService | null {
+		const service = this.plugin.syncManager.getService(VAULT_NOTES_SOURCE);
+		return service instanceof VaultNotesService ? service : null;
+	}
+}
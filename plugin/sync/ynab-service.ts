@@ -4,7 +4,7 @@
  */
 
 import { BaseSyncService } from './base-service';
-import { SyncResult, FetchedDataItem, OAuthTokens } from './types';
+import { SyncResult, FetchedDataItem, OAuthTokens, HttpResponse } from './types';
 
 /**
  * YNAB transaction
@@ -22,6 +22,7 @@ interface YNABTransaction {
 	category_name: string | null;
 	account_id: string;
 	account_name: string;
+	deleted?: boolean;
 }
 
 /**
@@ -84,10 +85,9 @@ export class YNABService extends BaseSyncService {
 	 * Perform sync for YNAB data
 	 */
 	protected async performSync(): Promise<Partial<SyncResult>> {
+		// Added/updated/unchanged counts come from the cache writes
 		const result: Partial<SyncResult> = {
 			itemsProcessed: 0,
-			itemsAdded: 0,
-			itemsUpdated: 0,
 		};
 
 		// Get budget ID if not set
@@ -100,9 +100,10 @@ export class YNABService extends BaseSyncService {
 		}
 
 		// Sync transactions
-		const transactions = await this.syncTransactions();
-		result.itemsProcessed! += transactions.length;
-		result.itemsAdded! += transactions.length;
+		if (!this.isExcluded('transaction')) {
+			const transactions = await this.syncTransactions();
+			result.itemsProcessed! += transactions.length;
+		}
 
 		return result;
 	}
@@ -142,24 +143,44 @@ export class YNABService extends BaseSyncService {
 		}
 
 		const items: FetchedDataItem[] = [];
+		const cursor = await this.getCursor('transaction');
 
-		// Build URL with optional since date
+		// Build URL with optional since date, or ask for changes since our last server_knowledge
 		let url = `https://api.ynab.com/v1/budgets/${this.budgetId}/transactions`;
 
-		if (since) {
-			const sinceDate = new Date(since).toISOString().split('T')[0];
+		// The first sync only reaches back as far as the backfill limit allows
+		const backfill = !since && !cursor?.cursor;
+		const sinceTime = since ?? (backfill ? this.getBackfillStart() : undefined);
+
+		if (sinceTime) {
+			const sinceDate = new Date(sinceTime).toISOString().split('T')[0];
 			url += `?since_date=${sinceDate}`;
+		} else if (cursor?.cursor) {
+			url += `?last_knowledge_of_server=${encodeURIComponent(cursor.cursor)}`;
 		}
 
 		const response = await this.makeYNABRequest(url);
 		const data = await response.json();
 
-		if (!data.data?.transactions || data.data.transactions.length === 0) {
-			return items;
+		const serverKnowledge = data.data?.server_knowledge;
+		let lastTimestamp = cursor?.lastTimestamp || 0;
+
+		let transactions = (data.data?.transactions || []) as YNABTransaction[];
+		if (backfill && this.backfillLimit.maxItems > 0) {
+			// Keep the most recent ones
+			transactions = [...transactions]
+				.sort((a, b) => b.date.localeCompare(a.date))
+				.slice(0, this.backfillLimit.maxItems);
 		}
 
-		for (const transaction of data.data.transactions as YNABTransaction[]) {
+		for (const transaction of transactions) {
+			// Delta responses include deleted transactions
+			if (transaction.deleted) {
+				continue;
+			}
+
 			const date = new Date(transaction.date).getTime();
+			lastTimestamp = Math.max(lastTimestamp, date);
 
 			items.push({
 				id: transaction.id,
@@ -178,32 +199,24 @@ export class YNABService extends BaseSyncService {
 				},
 				timestamp: date,
 			});
-
-			// Cache the item
-			await this.cacheData([items[items.length - 1]]);
 		}
 
+		// Cache all items in one transaction
+		await this.cacheData(items);
+
+		await this.saveCursor('transaction', {
+			cursor: serverKnowledge !== undefined ? String(serverKnowledge) : cursor?.cursor,
+			lastTimestamp,
+		});
+
 		return items;
 	}
 
 	/**
 	 * Make authenticated request to YNAB API
 	 */
-	private async makeYNABRequest(url: string): Promise<Response> {
-		const response = await fetch(url, {
-			headers: {
-				Authorization: `Bearer ${this.apiToken}`,
-			},
-		});
-
-		if (!response.ok) {
-			const errorText = await response.text();
-			throw new Error(
-				`YNAB API request failed (${response.status}): ${errorText}`
-			);
-		}
-
-		return response;
+	private async makeYNABRequest(url: string): Promise<HttpResponse> {
+		return await this.makeRequest(url);
 	}
 
 	/**
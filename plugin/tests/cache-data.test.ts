@@ -0,0 +1,39 @@
+/**
+ * Batched cache writes
+ */
+
+import 'fake-indexeddb/auto';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GenerousAIDatabase } from '../database';
+
+describe('cacheDataBatch', () => {
+	it('counts each write against the stored record with the same natural key', async () => {
+		const db = new GenerousAIDatabase('cache-data-batch');
+
+		assert.deepEqual(
+			await db.cacheDataBatch([
+				{ source: 'google', dataType: 'email', externalId: 'a', data: { subject: 'A' } },
+				{ source: 'google', dataType: 'email', externalId: 'b', data: { subject: 'B' } },
+			]),
+			['added', 'added']
+		);
+
+		assert.deepEqual(
+			await db.cacheDataBatch([
+				{ source: 'google', dataType: 'email', externalId: 'a', data: { subject: 'A' } },
+				{ source: 'google', dataType: 'email', externalId: 'b', data: { subject: 'B2' } },
+				// Same id under another source or data type is a different item
+				{ source: 'spotify', dataType: 'email', externalId: 'a', data: { subject: 'A' } },
+				{ source: 'google', dataType: 'calendar_event', externalId: 'a', data: { subject: 'A' } },
+				// Repeated within the batch
+				{ source: 'google', dataType: 'email', externalId: 'c', data: { subject: 'C' } },
+				{ source: 'google', dataType: 'email', externalId: 'c', data: { subject: 'C' } },
+			]),
+			['unchanged', 'updated', 'added', 'added', 'added', 'unchanged']
+		);
+
+		assert.equal(await db.cachedData.count(), 5);
+		db.close();
+	});
+});
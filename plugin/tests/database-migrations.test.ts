@@ -0,0 +1,152 @@
+/**
+ * Upgrading databases created by older schema versions
+ */
+
+import 'fake-indexeddb/auto';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import Dexie from 'dexie';
+import { GenerousAIDatabase, LEGACY_DATABASE_NAME, getDatabaseName, openVaultDatabase } from '../database';
+import { applyMigrations, SCHEMA_MIGRATIONS } from '../database-migrations';
+import { hashContent } from '../sync/content-hash';
+
+/**
+ * Create a database at an old schema version with sample rows, then close it
+ */
+async function createOldDatabase(name: string, version: number): Promise<void> {
+	const old = new Dexie(name);
+	applyMigrations(old, SCHEMA_MIGRATIONS.filter((migration) => migration.version <= version));
+
+	await old.table('cachedData').bulkAdd([
+		{
+			source: 'google',
+			dataType: 'email',
+			externalId: 'message-1',
+			data: { subject: 'Hello', threadId: 'thread-1', date: '2024-01-02T03:04:05.000Z' },
+			lastUpdated: 1000,
+		},
+		{
+			source: 'spotify',
+			dataType: 'recently_played',
+			externalId: 'play-1',
+			data: { track: 'Song' },
+			lastUpdated: 2000,
+		},
+	]);
+	await old.table('entities').add({
+		type: 'person',
+		name: 'Jane Doe',
+		aliases: [' Jane ', 'JANE', 'J. Doe', ''],
+		confidence: 0.9,
+		createdAt: 1000,
+	});
+
+	old.close();
+}
+
+/**
+ * Index names of a store in the upgraded database
+ */
+function getIndexNames(db: GenerousAIDatabase, table: string): string[] {
+	return db.table(table).schema.indexes.map((index) => index.name);
+}
+
+for (const version of [2, 6]) {
+	describe(`upgrading a v${version} database`, () => {
+		it('adds the current indexes and backfills the new fields', async () => {
+			const name = `migrations-v${version}`;
+			await createOldDatabase(name, version);
+
+			const db = new GenerousAIDatabase(name);
+			await db.open();
+
+			assert.equal(db.verno, SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version);
+
+			const cachedIndexes = getIndexNames(db, 'cachedData');
+			for (const index of [
+				'[source+dataType+externalId]',
+				'[source+dataType]',
+				'[source+dataType+timestamp]',
+				'[source+dataType+data.threadId]',
+			]) {
+				assert.ok(cachedIndexes.includes(index), `cachedData is missing ${index}`);
+			}
+
+			const entityIndexes = getIndexNames(db, 'entities');
+			assert.ok(entityIndexes.includes('[type+name]'));
+			assert.ok(entityIndexes.includes('aliases'));
+			assert.equal(db.entities.schema.idxByName.aliases.multi, true);
+
+			const [entity] = await db.entities.toArray();
+			assert.deepEqual(entity.aliases, ['jane', 'j. doe']);
+			assert.equal((await db.entities.where('aliases').equals('jane').first())?.name, 'Jane Doe');
+
+			const email = await db.cachedData
+				.where('[source+dataType+externalId]')
+				.equals(['google', 'email', 'message-1'])
+				.first();
+			assert.equal(email?.contentHash, hashContent(email?.data));
+			assert.equal(email?.timestamp, Date.parse('2024-01-02T03:04:05.000Z'));
+
+			// Without a timestamp of its own an item falls back to when it was cached
+			const play = await db.cachedData.where('[source+dataType]').equals(['spotify', 'recently_played']).first();
+			assert.equal(play?.contentHash, hashContent(play?.data));
+			assert.equal(play?.timestamp, 2000);
+
+			assert.equal(
+				await db.cachedData.where('[source+dataType+data.threadId]').equals(['google', 'email', 'thread-1']).count(),
+				1
+			);
+
+			db.close();
+		});
+	});
+}
+
+describe('migrating the legacy shared database', () => {
+	it('resumes an interrupted copy and deletes the legacy database once every table is copied', async () => {
+		const legacy = new GenerousAIDatabase(LEGACY_DATABASE_NAME);
+		await legacy.cachedData.bulkAdd(
+			Array.from({ length: 3 }, (_, i) => ({
+				source: 'google',
+				dataType: 'email',
+				externalId: `message-${i + 1}`,
+				data: { subject: `Message ${i + 1}` },
+				lastUpdated: 1000,
+				changedAt: 1000,
+			}))
+		);
+		await legacy.entities.add({
+			type: 'person',
+			name: 'Jane Doe',
+			aliases: [],
+			confidence: 0.9,
+			attributes: {},
+			sources: [],
+			firstSeen: 1000,
+			lastSeen: 1000,
+			occurrenceCount: 1,
+			createdAt: 1000,
+			updatedAt: 1000,
+		});
+		const [first] = await legacy.cachedData.limit(1).toArray();
+		legacy.close();
+
+		// An earlier attempt stopped after committing the first cached row
+		const partial = new GenerousAIDatabase(getDatabaseName('vault-1'));
+		await partial.cachedData.put(first);
+		await partial.legacyMigration.put({ table: 'cachedData', lastKey: first.id, done: false });
+		partial.close();
+
+		const db = await openVaultDatabase('vault-1');
+
+		assert.deepEqual(
+			(await db.cachedData.orderBy(':id').toArray()).map((item) => item.externalId),
+			['message-1', 'message-2', 'message-3']
+		);
+		assert.equal((await db.entities.toArray())[0].name, 'Jane Doe');
+		assert.equal(await Dexie.exists(LEGACY_DATABASE_NAME), false);
+
+		db.close();
+	});
+});
@@ -0,0 +1,96 @@
+/**
+ * Email thread prompts and the thread index
+ */
+
+import 'fake-indexeddb/auto';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GenerousAIDatabase } from '../database';
+import { EntityExtractor } from '../weave/entity-extractor';
+import { EmailThread } from '../weave/types';
+import { createHttpResponse } from '../sync/http-transport';
+import { HttpRequest } from '../sync/types';
+
+function makeThread(messageCount: number, bodyLength: number): EmailThread {
+	const messages = Array.from({ length: messageCount }, (_, i) => ({
+		id: `message-${i + 1}`,
+		from: i % 2 ? 'me@example.com' : 'jane@example.com',
+		to: i % 2 ? 'jane@example.com' : 'me@example.com',
+		date: new Date(2024, 0, 1, 0, i).toISOString(),
+		timestamp: new Date(2024, 0, 1, 0, i).getTime(),
+		fromMe: i % 2 === 1,
+		body: `Body of message ${i + 1} `.padEnd(bodyLength, 'x'),
+	}));
+
+	return {
+		threadId: 'thread-1',
+		subject: 'Planning',
+		messages,
+		participants: [
+			{ email: 'jane@example.com', messagesSent: Math.ceil(messageCount / 2), isUser: false },
+			{ email: 'me@example.com', messagesSent: Math.floor(messageCount / 2), isUser: true },
+		],
+		firstMessageAt: messages[0].timestamp,
+		lastMessageAt: messages[messageCount - 1].timestamp,
+		replyLatencies: [],
+		awaitingReplyFrom: null,
+	};
+}
+
+/**
+ * Extract a thread and return the prompt that was sent
+ */
+async function capturePrompt(thread: EmailThread): Promise<string> {
+	let prompt = '';
+	const extractor = new EntityExtractor('key', 'model', {
+		async request(request: HttpRequest) {
+			prompt = JSON.parse(request.body ?? '{}').messages[0].content;
+			return createHttpResponse(200, {}, JSON.stringify({
+				content: [{ text: '{"entities": [], "relationships": []}' }],
+			}));
+		},
+	});
+
+	await extractor.extract({ dataSource: 'google', dataType: 'email_thread', data: thread });
+	return prompt;
+}
+
+describe('email thread prompt', () => {
+	it('keeps the first and latest messages of a long thread within a fixed size', async () => {
+		const short = await capturePrompt(makeThread(12, 20000));
+		const long = await capturePrompt(makeThread(300, 20000));
+
+		assert.ok(long.length <= short.length + 200, `prompt grew to ${long.length} characters`);
+		assert.match(long, /--- Message 1 ---/);
+		assert.match(long, /--- Message 300 ---/);
+		assert.match(long, /\[290 message\(s\) omitted\]/);
+		assert.doesNotMatch(long, /--- Message 2 ---/);
+	});
+
+	it('sends every message of a short thread', async () => {
+		const prompt = await capturePrompt(makeThread(3, 100));
+
+		assert.match(prompt, /--- Message 1 ---[\s\S]*--- Message 2 ---[\s\S]*--- Message 3 ---/);
+		assert.doesNotMatch(prompt, /omitted/);
+	});
+});
+
+describe('email thread index', () => {
+	it('finds the messages of a thread', async () => {
+		const db = new GenerousAIDatabase('email-thread-index');
+		await db.cacheDataBatch([
+			{ source: 'google', dataType: 'email', externalId: 'm1', data: { id: 'm1', threadId: 't1' } },
+			{ source: 'google', dataType: 'email', externalId: 'm2', data: { id: 'm2', threadId: 't1' } },
+			{ source: 'google', dataType: 'email', externalId: 'm3', data: { id: 'm3', threadId: 't2' } },
+			{ source: 'other', dataType: 'email', externalId: 'm4', data: { id: 'm4', threadId: 't1' } },
+		]);
+
+		const thread = await db.cachedData
+			.where('[source+dataType+data.threadId]')
+			.equals(['google', 'email', 't1'])
+			.toArray();
+
+		assert.deepEqual(thread.map((item) => item.externalId).sort(), ['m1', 'm2']);
+		db.close();
+	});
+});
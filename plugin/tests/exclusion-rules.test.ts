@@ -0,0 +1,25 @@
+/**
+ * Exclusion rule parsing and matching
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ExclusionMatcher, parseExclusionRules } from '../sync/exclusion-rules';
+
+describe('keyword rules', () => {
+	it('match the title and content of a note', () => {
+		const { rules, errors } = parseExclusionRules(
+			'- vault note keyword: therapy\n- vault note keyword: Salary review',
+			'filters.md',
+			['vault']
+		);
+		assert.deepEqual(errors, []);
+
+		const matcher = new ExclusionMatcher(rules);
+		const note = (title: string, content: string) => ({ path: `Journal/${title}.md`, title, content });
+
+		assert.equal(matcher.match('vault', 'note', note('Therapy notes', 'Felt better today'))?.origin, 'filters.md:1');
+		assert.equal(matcher.match('vault', 'note', note('2024-03-01', 'Had my salary review'))?.origin, 'filters.md:2');
+		assert.equal(matcher.match('vault', 'note', note('2024-03-02', 'Went hiking')), undefined);
+	});
+});
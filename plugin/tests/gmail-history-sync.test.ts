@@ -0,0 +1,85 @@
+/**
+ * Gmail history sync retries messages that failed to fetch
+ */
+
+import 'fake-indexeddb/auto';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GenerousAIDatabase } from '../database';
+import { GoogleService } from '../sync/google-service';
+import { createHttpResponse, setHttpTransport } from '../sync/http-transport';
+import { HttpRequest, OAuthConfig } from '../sync/types';
+
+/**
+ * History lists two added messages; `broken` ones answer with an error
+ */
+function fakeGmailApi(broken: Set<string>) {
+	return {
+		async request(request: HttpRequest) {
+			const url = new URL(request.url);
+			const json = (body: unknown) => createHttpResponse(200, {}, JSON.stringify(body));
+
+			if (url.pathname.endsWith('/profile')) {
+				return json({ historyId: '200' });
+			}
+			if (url.pathname.endsWith('/history')) {
+				const added = url.searchParams.get('startHistoryId') === '100' ? ['m1', 'm2'] : [];
+				return json({ history: [{ messagesAdded: added.map((id) => ({ message: { id } })) }] });
+			}
+
+			const id = url.pathname.split('/').pop() ?? '';
+			if (broken.has(id)) {
+				return createHttpResponse(400, {}, 'Bad request');
+			}
+			return json({
+				id,
+				threadId: `thread-${id}`,
+				labelIds: ['INBOX'],
+				snippet: `Message ${id}`,
+				internalDate: '1704067200000',
+				payload: {
+					mimeType: 'text/plain',
+					headers: [{ name: 'Subject', value: `Message ${id}` }],
+					body: { data: Buffer.from(`Body of ${id}`).toString('base64url') },
+				},
+			});
+		},
+	};
+}
+
+function createService(db: GenerousAIDatabase): GoogleService {
+	const service = new GoogleService({} as OAuthConfig);
+	service.setDatabase(db);
+	service.setTokens({ access_token: 'access', token_type: 'Bearer', expires_at: Date.now() + 60 * 60 * 1000 });
+	service.setExcludedDataTypes(['calendar_event', 'drive_file']);
+	return service;
+}
+
+describe('Gmail history sync', () => {
+	it('retries a message that failed to fetch after the historyId moved past it', async () => {
+		const db = new GenerousAIDatabase('gmail-history-retry');
+		await db.updateSyncCursor('google', 'email', { cursor: '100', lastTimestamp: 1 });
+		const cachedIds = async () =>
+			(await db.cachedData.where('dataType').equals('email').toArray()).map((item) => item.externalId).sort();
+
+		const broken = new Set(['m2']);
+		setHttpTransport(fakeGmailApi(broken));
+
+		await createService(db).sync();
+		assert.deepEqual(await cachedIds(), ['m1']);
+
+		let cursor = await db.getSyncCursor('google', 'email');
+		assert.equal(cursor?.cursor, '200');
+		assert.deepEqual(cursor?.failedIds, ['m2']);
+
+		// The history since 200 is empty, so only the retry brings m2 in
+		broken.clear();
+		await createService(db).sync();
+		assert.deepEqual(await cachedIds(), ['m1', 'm2']);
+
+		cursor = await db.getSyncCursor('google', 'email');
+		assert.deepEqual(cursor?.failedIds, []);
+
+		db.close();
+	});
+});
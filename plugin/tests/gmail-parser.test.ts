@@ -0,0 +1,80 @@
+/**
+ * Gmail MIME payload parsing
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GmailMessagePart, parseGmailPayload, stripSignature } from '../sync/gmail-parser';
+
+function encode(text: string): string {
+	return Buffer.from(text, 'utf8').toString('base64url');
+}
+
+describe('parseGmailPayload', () => {
+	it('reads a text body Gmail stored by attachmentId', async () => {
+		const payload: GmailMessagePart = {
+			mimeType: 'multipart/alternative',
+			parts: [
+				{ mimeType: 'text/plain', body: { attachmentId: 'large-body', size: 90000 } },
+				{ mimeType: 'text/html', body: { data: encode('<p>HTML copy</p>') } },
+			],
+		};
+		const loaded: string[] = [];
+
+		const parsed = await parseGmailPayload(payload, async (attachmentId) => {
+			loaded.push(attachmentId);
+			return encode('The full plain text body');
+		});
+
+		assert.equal(parsed.body, 'The full plain text body');
+		assert.deepEqual(parsed.attachments, []);
+		assert.deepEqual(loaded, ['large-body']);
+	});
+
+	it('only treats named or attached parts as attachments', async () => {
+		const payload: GmailMessagePart = {
+			mimeType: 'multipart/mixed',
+			parts: [
+				{ mimeType: 'text/plain', body: { data: encode('Report attached') } },
+				{ mimeType: 'application/pdf', filename: 'report.pdf', body: { attachmentId: 'a1', size: 1200 } },
+				{
+					mimeType: 'text/csv',
+					headers: [{ name: 'Content-Disposition', value: 'attachment' }],
+					body: { attachmentId: 'a2', size: 300 },
+				},
+			],
+		};
+
+		const parsed = await parseGmailPayload(payload, async () => assert.fail('attachments are never downloaded'));
+
+		assert.equal(parsed.body, 'Report attached');
+		assert.deepEqual(parsed.attachments, [
+			{ filename: 'report.pdf', mimeType: 'application/pdf', size: 1200 },
+			{ filename: 'unnamed', mimeType: 'text/csv', size: 300 },
+		]);
+	});
+
+	it('skips the HTML part when there is plain text', async () => {
+		const payload: GmailMessagePart = {
+			mimeType: 'multipart/alternative',
+			parts: [
+				{ mimeType: 'text/plain', body: { data: encode('Plain') } },
+				{ mimeType: 'text/html', body: { attachmentId: 'html-body' } },
+			],
+		};
+
+		const parsed = await parseGmailPayload(payload, async () => assert.fail('HTML is not needed'));
+		assert.equal(parsed.body, 'Plain');
+	});
+});
+
+describe('stripSignature', () => {
+	it('removes a signature at the end of the body', () => {
+		assert.equal(stripSignature('Thanks!\n\n-- \nJane Doe\nAcme Corp'), 'Thanks!');
+	});
+
+	it('keeps a "--" line far from the end', () => {
+		const body = ['Agenda:', '--', ...Array.from({ length: 12 }, (_, i) => `Item ${i + 1}`)].join('\n');
+		assert.equal(stripSignature(body), body);
+	});
+});
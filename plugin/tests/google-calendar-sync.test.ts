@@ -0,0 +1,76 @@
+/**
+ * Google Calendar backfill against a fake Calendar API
+ */
+
+import 'fake-indexeddb/auto';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GenerousAIDatabase } from '../database';
+import { GoogleService } from '../sync/google-service';
+import { createHttpResponse, setHttpTransport } from '../sync/http-transport';
+import { HttpRequest, OAuthConfig } from '../sync/types';
+
+/**
+ * Three pages of two events; only the last page carries the sync token
+ */
+function fakeCalendarApi(requests: URL[]) {
+	return {
+		async request(request: HttpRequest) {
+			const url = new URL(request.url);
+			requests.push(url);
+
+			if (url.searchParams.has('syncToken')) {
+				return createHttpResponse(200, {}, JSON.stringify({ items: [], nextSyncToken: 'sync-2' }));
+			}
+
+			const page = Number(url.searchParams.get('pageToken') ?? '1');
+			const items = [0, 1].map((i) => ({
+				id: `event-${page}-${i}`,
+				summary: `Event ${page}.${i}`,
+				start: { dateTime: `2024-01-0${page}T0${i}:00:00Z` },
+				end: { dateTime: `2024-01-0${page}T0${i}:30:00Z` },
+			}));
+
+			return createHttpResponse(
+				200,
+				{},
+				JSON.stringify(page < 3 ? { items, nextPageToken: String(page + 1) } : { items, nextSyncToken: 'sync-1' })
+			);
+		},
+	};
+}
+
+function createService(db: GenerousAIDatabase): GoogleService {
+	const service = new GoogleService({} as OAuthConfig);
+	service.setDatabase(db);
+	service.setTokens({ access_token: 'access', token_type: 'Bearer', expires_at: Date.now() + 60 * 60 * 1000 });
+	service.setExcludedDataTypes(['email', 'drive_file']);
+	service.setBackfillLimit({ maxAgeDays: 0, maxItems: 3 });
+	return service;
+}
+
+describe('Google Calendar sync', () => {
+	it('stores the sync token when the backfill stops at its item limit', async () => {
+		const db = new GenerousAIDatabase('calendar-backfill-limit');
+		const requests: URL[] = [];
+		setHttpTransport(fakeCalendarApi(requests));
+
+		const result = await createService(db).sync();
+
+		assert.equal(result.success, true);
+		assert.equal(result.itemsProcessed, 3);
+		assert.equal(await db.cachedData.where('dataType').equals('calendar_event').count(), 3);
+		assert.equal(requests.length, 3);
+
+		const cursor = await db.getSyncCursor('google', 'calendar_event');
+		assert.equal(cursor?.cursor, 'sync-1');
+		assert.equal(cursor?.backfill, undefined);
+
+		// The next sync is incremental instead of another backfill
+		await createService(db).sync();
+		assert.equal(requests[3].searchParams.get('syncToken'), 'sync-1');
+		assert.equal((await db.getSyncCursor('google', 'calendar_event'))?.cursor, 'sync-2');
+
+		db.close();
+	});
+});
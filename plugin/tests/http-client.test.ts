@@ -0,0 +1,85 @@
+/**
+ * Retries, error classification and cancellation in the shared HTTP client
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { HttpClient, NetworkError, RequestAbortedError } from '../sync/http-client';
+import { createHttpResponse } from '../sync/http-transport';
+import { HttpRequest, HttpResponse, HttpTransport } from '../sync/types';
+
+/**
+ * Transport answering each request with the next handler
+ */
+function scriptedTransport(handlers: Array<() => HttpResponse>): HttpTransport & { requests: HttpRequest[] } {
+	return {
+		requests: [],
+		async request(request) {
+			this.requests.push(request);
+			const handler = handlers.shift();
+			assert.ok(handler, `unexpected request to ${request.url}`);
+			return handler();
+		},
+	};
+}
+
+describe('HttpClient', () => {
+	it('retries network failures and reports them as NetworkError', async () => {
+		const transport = scriptedTransport([
+			() => {
+				throw new TypeError('Failed to fetch');
+			},
+			() => {
+				throw new Error('net::ERR_INTERNET_DISCONNECTED');
+			},
+			() => createHttpResponse(200, {}, '{}'),
+		]);
+		const client = new HttpClient('http-retry', { transport, baseDelayMs: 1 });
+
+		assert.equal((await client.request('https://api.example.com/items')).status, 200);
+		assert.equal(transport.requests.length, 3);
+
+		const offline = scriptedTransport(
+			Array.from({ length: 3 }, () => () => {
+				throw new TypeError('Failed to fetch');
+			})
+		);
+		await assert.rejects(
+			new HttpClient('http-retry', { transport: offline, baseDelayMs: 1, maxRetries: 2 }).request(
+				'https://api.example.com/items'
+			),
+			NetworkError
+		);
+	});
+
+	it('rethrows other transport errors unchanged without retrying', async () => {
+		const bug = new TypeError("Cannot read properties of undefined (reading 'json')");
+		const missingFixture = new Error('No fixture for GET https://api.example.com/items');
+		const transport = scriptedTransport([
+			() => {
+				throw bug;
+			},
+			() => {
+				throw missingFixture;
+			},
+		]);
+		const client = new HttpClient('http-rethrow', { transport, baseDelayMs: 1 });
+
+		await assert.rejects(client.request('https://api.example.com/items'), (error) => error === bug);
+		await assert.rejects(client.request('https://api.example.com/items'), (error) => error === missingFixture);
+		assert.equal(transport.requests.length, 2);
+	});
+
+	it('stops waiting for a retry when the signal aborts', async () => {
+		const controller = new AbortController();
+		const transport = scriptedTransport([() => createHttpResponse(429, { 'retry-after': '30' }, 'Slow down')]);
+		const client = new HttpClient('http-abort', { transport, getSignal: () => controller.signal });
+
+		const started = Date.now();
+		const request = client.request('https://api.example.com/items');
+		setTimeout(() => controller.abort(), 10);
+
+		await assert.rejects(request, RequestAbortedError);
+		assert.ok(Date.now() - started < 5000);
+	});
+});
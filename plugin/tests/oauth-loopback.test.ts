@@ -0,0 +1,152 @@
+/**
+ * Loopback OAuth flow against a fake authorization server and token endpoint
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { startDesktopOAuthFlow } from '../sync/oauth-helper';
+import { FetchTransport, setHttpTransport } from '../sync/http-transport';
+import { OAuthConfig } from '../sync/types';
+
+const ISSUED_CODE = 'test-authorization-code';
+
+/**
+ * Token endpoint that only accepts the issued code with the verifier for the last challenge
+ */
+class FakeTokenEndpoint {
+	server = http.createServer((req, res) => this.handle(req, res));
+	expectedChallenge = '';
+	requests: URLSearchParams[] = [];
+
+	async start(): Promise<string> {
+		await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+		return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/token`;
+	}
+
+	stop(): Promise<void> {
+		return new Promise((resolve) => this.server.close(() => resolve()));
+	}
+
+	private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+		let body = '';
+		req.on('data', (chunk) => (body += chunk));
+		req.on('end', () => {
+			const params = new URLSearchParams(body);
+			this.requests.push(params);
+
+			const challenge = createHash('sha256')
+				.update(params.get('code_verifier') ?? '')
+				.digest('base64url');
+
+			if (params.get('code') !== ISSUED_CODE || challenge !== this.expectedChallenge) {
+				res.writeHead(400, { 'Content-Type': 'application/json' });
+				res.end(JSON.stringify({ error: 'invalid_grant' }));
+				return;
+			}
+
+			res.writeHead(200, { 'Content-Type': 'application/json' });
+			res.end(JSON.stringify({ access_token: 'access-1', refresh_token: 'refresh-1', expires_in: 3600 }));
+		});
+	}
+}
+
+/**
+ * Stands in for the browser: reads the authorization URL and redirects to the loopback server
+ */
+function fakeBrowser(
+	endpoint: FakeTokenEndpoint,
+	redirect: (authorization: URL) => Record<string, string> | null
+): (url: string) => void {
+	return (url) => {
+		const authorization = new URL(url);
+		endpoint.expectedChallenge = authorization.searchParams.get('code_challenge') ?? '';
+
+		const query = redirect(authorization);
+		if (!query) {
+			return;
+		}
+
+		const callback = new URL(authorization.searchParams.get('redirect_uri') ?? '');
+		for (const [name, value] of Object.entries(query)) {
+			callback.searchParams.set(name, value);
+		}
+		fetch(callback).catch(() => undefined);
+	};
+}
+
+describe('loopback OAuth flow', () => {
+	const endpoint = new FakeTokenEndpoint();
+	let config: OAuthConfig;
+
+	before(async () => {
+		setHttpTransport(new FetchTransport());
+		config = {
+			clientId: 'client-id',
+			clientSecret: 'client-secret',
+			authUrl: 'https://auth.example.com/authorize',
+			tokenUrl: await endpoint.start(),
+			redirectUri: '',
+			scopes: ['read'],
+		};
+	});
+
+	after(() => endpoint.stop());
+
+	it('exchanges the code with the PKCE verifier', async () => {
+		const tokens = await startDesktopOAuthFlow(config, {
+			timeoutMs: 5000,
+			openUrl: fakeBrowser(endpoint, (authorization) => {
+				assert.equal(authorization.searchParams.get('code_challenge_method'), 'S256');
+				assert.match(authorization.searchParams.get('redirect_uri') ?? '', /^http:\/\/127\.0\.0\.1:\d+\/callback$/);
+				return { code: ISSUED_CODE, state: authorization.searchParams.get('state') ?? '' };
+			}),
+		});
+
+		assert.equal(tokens.access_token, 'access-1');
+		assert.equal(tokens.refresh_token, 'refresh-1');
+		assert.ok(tokens.expires_at && tokens.expires_at > Date.now());
+
+		const exchange = endpoint.requests[endpoint.requests.length - 1];
+		assert.equal(exchange.get('grant_type'), 'authorization_code');
+		assert.equal(exchange.get('client_secret'), 'client-secret');
+	});
+
+	it('rejects a callback with a different state without exchanging the code', async () => {
+		const exchanges = endpoint.requests.length;
+
+		await assert.rejects(
+			startDesktopOAuthFlow(config, {
+				timeoutMs: 5000,
+				openUrl: fakeBrowser(endpoint, () => ({ code: ISSUED_CODE, state: 'forged-state' })),
+			}),
+			/OAuth state mismatch/
+		);
+		assert.equal(endpoint.requests.length, exchanges);
+	});
+
+	it('reports a provider error from the callback', async () => {
+		await assert.rejects(
+			startDesktopOAuthFlow(config, {
+				timeoutMs: 5000,
+				openUrl: fakeBrowser(endpoint, (authorization) => ({
+					error: 'access_denied',
+					state: authorization.searchParams.get('state') ?? '',
+				})),
+			}),
+			/OAuth error: access_denied/
+		);
+	});
+
+	it('times out when the browser never comes back', async () => {
+		await assert.rejects(
+			startDesktopOAuthFlow(config, {
+				timeoutMs: 50,
+				openUrl: fakeBrowser(endpoint, () => null),
+			}),
+			/Timed out waiting for OAuth authorization/
+		);
+	});
+});
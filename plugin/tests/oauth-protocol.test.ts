@@ -0,0 +1,149 @@
+/**
+ * obsidian:// OAuth flow persistence across restarts
+ */
+
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+	OAuthFlowStore,
+	cancelPendingOAuthFlows,
+	handleOAuthProtocolCallback,
+	setOAuthFlowStore,
+	startProtocolOAuthFlow,
+} from '../sync/oauth-helper';
+import { OAuthConfig } from '../sync/types';
+import { PendingOAuthFlowState } from '../types';
+
+const config: OAuthConfig = {
+	clientId: 'client-id',
+	authUrl: 'https://auth.example.com/authorize',
+	tokenUrl: 'https://auth.example.com/token',
+	redirectUri: '',
+	scopes: ['read'],
+};
+
+/**
+ * Plugin data stand-in
+ */
+function memoryStore(): OAuthFlowStore & { flows: PendingOAuthFlowState[] } {
+	return {
+		flows: [],
+		load() {
+			return this.flows;
+		},
+		async save(flows) {
+			this.flows = flows;
+		},
+	};
+}
+
+/**
+ * Start a protocol flow, then drop it from memory as if Obsidian had been closed
+ */
+async function startAndRestart(store: OAuthFlowStore): Promise<string> {
+	let flow: Promise<unknown> = Promise.resolve();
+	const authorizationUrl = await new Promise<string>((resolve) => {
+		flow = startProtocolOAuthFlow(config, 'google', { timeoutMs: 60000, openUrl: resolve });
+	});
+
+	cancelPendingOAuthFlows();
+	await assert.rejects(flow, /cancelled/);
+
+	assert.ok(store.load().length > 0);
+	return new URL(authorizationUrl).searchParams.get('state') ?? '';
+}
+
+describe('protocol OAuth flow', () => {
+	afterEach(() => setOAuthFlowStore(null));
+
+	it('resumes a callback after a restart with the persisted verifier', async () => {
+		const store = memoryStore();
+		setOAuthFlowStore(store);
+
+		const state = await startAndRestart(store);
+		const verifier = store.flows[0].codeVerifier;
+
+		const resumed = await handleOAuthProtocolCallback({
+			action: 'generous-ai/oauth',
+			provider: 'google',
+			code: 'code-1',
+			state,
+		});
+
+		assert.deepEqual(resumed, {
+			provider: 'google',
+			code: 'code-1',
+			redirectUri: 'obsidian://generous-ai/oauth?provider=google',
+			codeVerifier: verifier,
+		});
+		assert.equal(store.flows.length, 0);
+	});
+
+	it('accepts each persisted flow once', async () => {
+		const store = memoryStore();
+		setOAuthFlowStore(store);
+
+		const state = await startAndRestart(store);
+		const params = { action: 'generous-ai/oauth', provider: 'google', code: 'code-1', state };
+
+		await handleOAuthProtocolCallback(params);
+		await assert.rejects(handleOAuthProtocolCallback(params), /No pending authorization/);
+	});
+
+	it('ignores expired flows', async () => {
+		const store = memoryStore();
+		setOAuthFlowStore(store);
+
+		const state = await startAndRestart(store);
+		store.flows = store.flows.map((flow) => ({ ...flow, expiresAt: Date.now() - 1 }));
+
+		await assert.rejects(
+			handleOAuthProtocolCallback({ action: 'generous-ai/oauth', provider: 'google', code: 'code-1', state }),
+			/No pending authorization/
+		);
+	});
+
+	it('drops the flow when the browser cannot be opened', async () => {
+		const store = memoryStore();
+		setOAuthFlowStore(store);
+
+		const unhandled: unknown[] = [];
+		const onUnhandled = (reason: unknown) => unhandled.push(reason);
+		process.on('unhandledRejection', onUnhandled);
+
+		let state = '';
+		await assert.rejects(
+			startProtocolOAuthFlow(config, 'google', {
+				timeoutMs: 20,
+				openUrl: (url) => {
+					state = new URL(url).searchParams.get('state') ?? '';
+					throw new Error('No browser');
+				},
+			}),
+			/No browser/
+		);
+		assert.equal(store.flows.length, 0);
+
+		// Past the timeout, nothing rejects in the background
+		await new Promise((resolve) => setTimeout(resolve, 50));
+		process.off('unhandledRejection', onUnhandled);
+		assert.deepEqual(unhandled, []);
+
+		await assert.rejects(
+			handleOAuthProtocolCallback({ action: 'generous-ai/oauth', provider: 'google', code: 'code-1', state }),
+			/No pending authorization/
+		);
+	});
+
+	it('rejects a callback for another provider', async () => {
+		const store = memoryStore();
+		setOAuthFlowStore(store);
+
+		const state = await startAndRestart(store);
+
+		await assert.rejects(
+			handleOAuthProtocolCallback({ action: 'generous-ai/oauth', provider: 'spotify', code: 'code-1', state }),
+			/expected google/
+		);
+	});
+});
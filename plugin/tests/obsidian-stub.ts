@@ -0,0 +1,42 @@
+/**
+ * Minimal stand-in for the `obsidian` module when tests run under Node
+ * Only what the modules under test touch at runtime is provided
+ */
+
+export const Platform = {
+	isDesktopApp: true,
+	isMobile: false,
+};
+
+export interface ObsidianProtocolData {
+	action: string;
+	[key: string]: string;
+}
+
+/**
+ * Notices are recorded instead of shown
+ */
+export class Notice {
+	static messages: string[] = [];
+
+	constructor(message: string) {
+		Notice.messages.push(message);
+	}
+
+	hide(): void {}
+}
+
+export async function requestUrl(): Promise<never> {
+	throw new Error('requestUrl is not available in tests - use FetchTransport');
+}
+
+/**
+ * Vault file - tests fill in the fields the code under test reads
+ */
+export class TFile {
+	path = '';
+	basename = '';
+	extension = '';
+	parent: { path: string } | null = null;
+	stat = { ctime: 0, mtime: 0, size: 0 };
+}
@@ -0,0 +1,72 @@
+/**
+ * Record/replay fixtures never hold credentials
+ */
+
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { RecordReplayTransport, createHttpResponse, redactSecrets } from '../sync/http-transport';
+import { HttpRequest } from '../sync/types';
+
+const fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'generous-ai-fixtures-'));
+
+function tokenRequest(code: string, verifier: string): HttpRequest {
+	return {
+		url: 'https://oauth2.example.com/token',
+		method: 'POST',
+		headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+		body: new URLSearchParams({
+			code,
+			client_id: 'client-id',
+			client_secret: 'client-secret-value',
+			code_verifier: verifier,
+			grant_type: 'authorization_code',
+		}).toString(),
+	};
+}
+
+describe('RecordReplayTransport', () => {
+	after(() => fs.rmSync(fixturesDir, { recursive: true, force: true }));
+
+	it('redacts secrets from recorded fixtures and replays them for other secrets', async () => {
+		const recorder = new RecordReplayTransport({ mode: 'record', fixturesDir }, {
+			async request() {
+				return createHttpResponse(200, { 'content-type': 'application/json' }, JSON.stringify({
+					access_token: 'access-token-value',
+					refresh_token: 'refresh-token-value',
+					expires_in: 3600,
+				}));
+			},
+		});
+
+		const live = await recorder.request(tokenRequest('auth-code-value', 'verifier-value'));
+		assert.equal((await live.json()).access_token, 'access-token-value');
+
+		const files = fs.readdirSync(fixturesDir);
+		assert.equal(files.length, 1);
+		const written = fs.readFileSync(path.join(fixturesDir, files[0]), 'utf8');
+		for (const secret of ['auth-code-value', 'verifier-value', 'client-secret-value', 'access-token-value', 'refresh-token-value']) {
+			assert.ok(!written.includes(secret), `fixture contains ${secret}`);
+		}
+		assert.ok(written.includes('client-id'));
+
+		const replayer = new RecordReplayTransport({ mode: 'replay', fixturesDir });
+		const replayed = await replayer.request(tokenRequest('another-code', 'another-verifier'));
+		assert.equal((await replayed.json()).expires_in, 3600);
+	});
+});
+
+describe('redactSecrets', () => {
+	it('keeps numeric error codes in JSON', () => {
+		assert.equal(
+			redactSecrets('{"error":{"code":401,"message":"bad"},"refresh_token":"x"}'),
+			'{"error":{"code":401,"message":"bad"},"refresh_token":"[REDACTED]"}'
+		);
+	});
+
+	it('leaves other bodies unchanged', () => {
+		assert.equal(redactSecrets('plain text body'), 'plain text body');
+	});
+});
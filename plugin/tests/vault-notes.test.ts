@@ -0,0 +1,64 @@
+/**
+ * Removing cached vault notes that were deleted or deselected
+ */
+
+import 'fake-indexeddb/auto';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TFile, Vault } from 'obsidian';
+import { CachedData, GenerousAIDatabase } from '../database';
+import { DEFAULT_SETTINGS, GenerousAISettings } from '../types';
+import { VAULT_NOTES_SOURCE, VaultNotesService } from '../sync/vault-notes';
+
+function createNote(path: string): TFile {
+	const file = new TFile();
+	file.path = path;
+	file.basename = path.split('/').pop()!.replace(/\.md$/, '');
+	file.extension = 'md';
+	return file;
+}
+
+/**
+ * In-memory vault holding a note per path
+ */
+function createVault(paths: string[]): { vault: Vault; files: Map<string, TFile> } {
+	const files = new Map(paths.map((path) => [path, createNote(path)]));
+	const vault = {
+		getMarkdownFiles: () => Array.from(files.values()),
+		getAbstractFileByPath: (path: string) => files.get(path) ?? null,
+		cachedRead: async (file: TFile) => `Contents of ${file.path}`,
+	};
+	return { vault: vault as unknown as Vault, files };
+}
+
+describe('VaultNotesService', () => {
+	it('removes deleted and deselected notes and forgets their facts', async () => {
+		const db = new GenerousAIDatabase('vault-notes');
+		const { vault, files } = createVault(['Journal/a.md', 'Journal/b.md', 'Work/c.md', 'Work/d.md']);
+		const settings: GenerousAISettings = { ...DEFAULT_SETTINGS, vaultNoteFolders: ['Journal', 'Work'] };
+		const forgotten: string[] = [];
+
+		const service = new VaultNotesService(vault, () => settings, async (notes: CachedData[]) => {
+			forgotten.push(...notes.map((note) => note.externalId));
+		});
+		service.setDatabase(db);
+
+		await service.indexNotes(Array.from(files.values()));
+		const cachedPaths = async () =>
+			(await db.cachedData.where('source').equals(VAULT_NOTES_SOURCE).toArray()).map((note) => note.externalId).sort();
+		assert.deepEqual(await cachedPaths(), ['Journal/a.md', 'Journal/b.md', 'Work/c.md', 'Work/d.md']);
+
+		// Deleted, or the old path of a rename
+		assert.equal(await service.removeNotes(['Journal/a.md', 'Journal/missing.md']), 1);
+		assert.deepEqual(await cachedPaths(), ['Journal/b.md', 'Work/c.md', 'Work/d.md']);
+
+		// A deselected folder, and a note deleted while the watcher wasn't running
+		settings.vaultNoteFolders = ['Work'];
+		files.delete('Work/c.md');
+		assert.equal(await service.purgeUnindexedNotes(), 2);
+		assert.deepEqual(await cachedPaths(), ['Work/d.md']);
+
+		assert.deepEqual(forgotten.sort(), ['Journal/a.md', 'Journal/b.md', 'Work/c.md']);
+		db.close();
+	});
+});
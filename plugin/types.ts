@@ -14,11 +14,25 @@ export interface GenerousAISettings {
 	googleTokens: EncryptedData | null;
 	spotifyTokens: EncryptedData | null;
 	ynabToken: EncryptedData | null;
+	oauthTokenState: Record<string, OAuthTokenState>; // Keyed by data source
+	pendingOAuthFlows: PendingOAuthFlowState[]; // Protocol flows waiting for their callback
+
+	// OAuth client credentials (custom URLs are optional, e.g. for a local mock)
+	googleClientId: EncryptedData | null;
+	googleClientSecret: EncryptedData | null;
+	googleAuthUrl: string;
+	googleTokenUrl: string;
+	spotifyClientId: EncryptedData | null;
+	spotifyClientSecret: EncryptedData | null;
+	spotifyAuthUrl: string;
+	spotifyTokenUrl: string;
 
 	// AI backend settings
 	claudeApiKey: EncryptedData | null;
 	openaiApiKey: EncryptedData | null;
 	preferredAIProvider: 'claude' | 'openai';
+	autoExtractChanges: boolean; // Extract entities from synced changes without a manual Weave build
+	autoExtractLimit: number; // Most extractions per run - the rest wait for the next one
 
 	// Feature toggles
 	enableVirtueGuidance: boolean;
@@ -26,7 +40,20 @@ export interface GenerousAISettings {
 
 	// Sync settings
 	lastSyncTimestamp: number;
-	syncIntervalMinutes: number;
+	syncIntervalMinutes: number; // Default for sources without their own interval
+	sourceSyncIntervals: Record<string, number>; // Minutes, keyed by data source (0 = manual only)
+	syncConcurrency: number; // Sources synced at the same time
+	backfillLimits: Record<string, BackfillLimit>; // Keyed by data source
+	excludedDataTypes: Record<string, string[]>; // Data types never imported, keyed by data source
+	reviewedSources: string[]; // Sources whose initial import the user has reviewed
+	exclusionRules: string; // One rule per line, same syntax as _assistant/filters.md
+	vaultNoteFolders: string[]; // Folders indexed as notes; '/' for the whole vault
+	appliedExclusionRules: string; // Fingerprint of the rules last purged from the cache
+	retentionPolicies: Record<string, RetentionPolicy>; // Keyed by "source/dataType" - absent = keep forever
+	keepWeaveFactsAfterRetention: boolean; // Keep extracted facts, with provenance stubs, once raw data expires
+	bankCsvPresets: BankCsvPreset[]; // Saved column mappings, one per bank export format
+	httpTransport: 'requestUrl' | 'fetch' | 'record' | 'replay'; // record/replay are for development
+	httpFixturesPath: string; // Fixture folder for record/replay, relative to the vault
 
 	// Vault structure settings
 	systemFolderPath: string; // Default: "_assistant"
@@ -37,6 +64,46 @@ export interface GenerousAISettings {
 	showStatusBar: boolean;
 }
 
+/**
+ * How far back the first sync of a source reaches (0 = unlimited)
+ */
+export interface BackfillLimit {
+	maxAgeDays: number;
+	maxItems: number; // Per data type
+}
+
+/**
+ * How long cached items of one data type are kept
+ */
+export interface RetentionPolicy {
+	maxAgeDays: number; // 0 = keep forever
+	action: 'delete' | 'strip'; // strip removes raw content (e.g. email bodies) but keeps metadata
+}
+
+/**
+ * Which CSV columns hold each transaction field (header names)
+ */
+export interface BankCsvColumns {
+	date: string;
+	amount: string;
+	payee?: string;
+	memo?: string;
+	category?: string;
+	account?: string;
+}
+
+/**
+ * Saved column mapping for one bank's CSV export
+ */
+export interface BankCsvPreset {
+	name: string; // e.g. "Chase checking"
+	headerSignature: string; // Normalized header row, used to pick the preset for a file
+	columns: BankCsvColumns;
+	dateFormat: 'auto' | 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+	invertAmounts: boolean; // The bank lists spending as positive amounts
+	accountName: string; // Used when there's no account column
+}
+
 /**
  * Encrypted data wrapper
  */
@@ -46,6 +113,36 @@ export interface EncryptedData {
 	salt: string;
 }
 
+/**
+ * A single OAuth token refresh
+ */
+export interface TokenRotationEntry {
+	rotatedAt: number;
+	expiresAt?: number;
+	refreshTokenRotated: boolean; // Provider issued a new refresh token
+}
+
+/**
+ * Refresh bookkeeping for an OAuth data source
+ */
+export interface OAuthTokenState {
+	reauthorizationRequired: boolean;
+	reauthorizationReason?: string;
+	rotationHistory: TokenRotationEntry[];
+}
+
+/**
+ * An obsidian:// OAuth flow waiting for its callback
+ * Persisted so the flow survives Obsidian being closed while the user is in the browser
+ */
+export interface PendingOAuthFlowState {
+	state: string;
+	provider: string;
+	redirectUri: string;
+	codeVerifier: string; // One-time PKCE secret, useless without the code it's exchanged with
+	expiresAt: number;
+}
+
 /**
  * Data source connection status
  */
@@ -89,13 +186,45 @@ export const DEFAULT_SETTINGS: GenerousAISettings = {
 	googleTokens: null,
 	spotifyTokens: null,
 	ynabToken: null,
+	oauthTokenState: {},
+	pendingOAuthFlows: [],
+	googleClientId: null,
+	googleClientSecret: null,
+	googleAuthUrl: '',
+	googleTokenUrl: '',
+	spotifyClientId: null,
+	spotifyClientSecret: null,
+	spotifyAuthUrl: '',
+	spotifyTokenUrl: '',
 	claudeApiKey: null,
 	openaiApiKey: null,
 	preferredAIProvider: 'claude',
+	autoExtractChanges: false,
+	autoExtractLimit: 25,
 	enableVirtueGuidance: false,
 	virtueGuidanceTier: 1,
 	lastSyncTimestamp: 0,
 	syncIntervalMinutes: 60,
+	sourceSyncIntervals: {
+		google: 15,
+		ynab: 1440,
+	},
+	syncConcurrency: 2,
+	backfillLimits: {
+		google: { maxAgeDays: 730, maxItems: 10000 },
+		spotify: { maxAgeDays: 0, maxItems: 2000 },
+		ynab: { maxAgeDays: 730, maxItems: 0 },
+	},
+	excludedDataTypes: {},
+	reviewedSources: [],
+	exclusionRules: '',
+	vaultNoteFolders: [],
+	appliedExclusionRules: '',
+	retentionPolicies: {},
+	keepWeaveFactsAfterRetention: true,
+	bankCsvPresets: [],
+	httpTransport: 'requestUrl',
+	httpFixturesPath: '.generous-ai-fixtures',
 	systemFolderPath: '_assistant',
 	userFolderPath: 'Assistant',
 	sidebarPosition: 'right',
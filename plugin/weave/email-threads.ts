@@ -0,0 +1,168 @@
+/**
+ * Email Threads
+ * Reconstructs Gmail threads from cached messages so they can be extracted as a whole
+ */
+
+import { CachedData } from '../database';
+import { EmailThread, EmailThreadMessage, EmailThreadParticipant } from './types';
+
+/**
+ * Group cached email records into threads
+ */
+export function buildEmailThreads(emails: CachedData[]): EmailThread[] {
+	const byThread = new Map<string, CachedData[]>();
+
+	for (const email of emails) {
+		// Messages without a threadId form their own thread
+		const threadId = email.data.threadId || email.externalId;
+		if (!byThread.has(threadId)) {
+			byThread.set(threadId, []);
+		}
+		byThread.get(threadId)!.push(email);
+	}
+
+	return Array.from(byThread.entries()).map(([threadId, records]) =>
+		buildEmailThread(threadId, records)
+	);
+}
+
+/**
+ * Build a single thread from its cached messages
+ */
+export function buildEmailThread(threadId: string, records: CachedData[]): EmailThread {
+	const messages: EmailThreadMessage[] = records
+		.map((record) => ({
+			id: record.externalId,
+			from: record.data.from || '',
+			to: record.data.to || '',
+			cc: record.data.cc || undefined,
+			date: record.data.date || '',
+			timestamp: record.data.timestamp || 0,
+			fromMe: !!record.data.fromMe,
+			body: record.data.body || record.data.snippet || '',
+			attachments: record.data.attachments,
+		}))
+		.sort((a, b) => a.timestamp - b.timestamp);
+
+	const participants = collectParticipants(messages);
+	const replyLatencies = computeReplyLatencies(messages);
+	const lastMessage = messages[messages.length - 1];
+
+	return {
+		threadId,
+		// The first message carries the subject without Re:/Fwd: prefixes
+		subject: records.find((r) => r.externalId === messages[0]?.id)?.data.subject || '',
+		messages,
+		participants,
+		firstMessageAt: messages[0]?.timestamp || 0,
+		lastMessageAt: lastMessage?.timestamp || 0,
+		replyLatencies,
+		averageReplyLatencyMs: replyLatencies.length > 0
+			? replyLatencies.reduce((sum, r) => sum + r.latencyMs, 0) / replyLatencies.length
+			: undefined,
+		awaitingReplyFrom: determineAwaitingReply(messages),
+	};
+}
+
+/**
+ * Collect everyone who sent or received a message in the thread
+ */
+function collectParticipants(messages: EmailThreadMessage[]): EmailThreadParticipant[] {
+	const participants = new Map<string, EmailThreadParticipant>();
+
+	const addParticipant = (address: { email: string; name?: string }, isUser: boolean) => {
+		const existing = participants.get(address.email);
+		if (existing) {
+			existing.name = existing.name || address.name;
+			existing.isUser = existing.isUser || isUser;
+			return existing;
+		}
+
+		const participant: EmailThreadParticipant = {
+			email: address.email,
+			name: address.name,
+			messagesSent: 0,
+			isUser,
+		};
+		participants.set(address.email, participant);
+		return participant;
+	};
+
+	for (const message of messages) {
+		for (const sender of parseAddressList(message.from)) {
+			addParticipant(sender, message.fromMe).messagesSent++;
+		}
+
+		for (const recipient of parseAddressList(`${message.to}, ${message.cc || ''}`)) {
+			addParticipant(recipient, false);
+		}
+	}
+
+	return Array.from(participants.values()).sort((a, b) => b.messagesSent - a.messagesSent);
+}
+
+/**
+ * Measure how long each sender took to answer a message from someone else
+ */
+function computeReplyLatencies(
+	messages: EmailThreadMessage[]
+): Array<{ from: string; latencyMs: number }> {
+	const latencies: Array<{ from: string; latencyMs: number }> = [];
+
+	for (let i = 1; i < messages.length; i++) {
+		const previousSender = parseAddressList(messages[i - 1].from)[0]?.email;
+		const sender = parseAddressList(messages[i].from)[0]?.email;
+
+		// Follow-ups to one's own message are not replies
+		if (sender && sender !== previousSender) {
+			latencies.push({
+				from: sender,
+				latencyMs: messages[i].timestamp - messages[i - 1].timestamp,
+			});
+		}
+	}
+
+	return latencies;
+}
+
+/**
+ * Work out who should send the next message
+ */
+function determineAwaitingReply(messages: EmailThreadMessage[]): 'user' | 'others' | null {
+	if (messages.length === 0) {
+		return null;
+	}
+
+	// One-way mail (newsletters, notifications) is not a conversation
+	const senders = new Set(messages.map((m) => parseAddressList(m.from)[0]?.email));
+	if (!messages.some((m) => m.fromMe) && senders.size < 2) {
+		return null;
+	}
+
+	return messages[messages.length - 1].fromMe ? 'others' : 'user';
+}
+
+/**
+ * Parse an address header such as `"Doe, Jane" <jane@example.com>, bob@example.com`
+ */
+export function parseAddressList(header: string): Array<{ email: string; name?: string }> {
+	const addresses: Array<{ email: string; name?: string }> = [];
+
+	// Split on commas that are not inside quotes
+	const entries = header.match(/(?:"[^"]*"|[^,])+/g) || [];
+
+	for (const entry of entries) {
+		const trimmed = entry.trim();
+		if (!trimmed) continue;
+
+		const angled = trimmed.match(/^(.*?)\s*<([^>]+)>$/);
+		if (angled) {
+			const name = angled[1].replace(/^"|"$/g, '').trim();
+			addresses.push({ email: angled[2].trim().toLowerCase(), name: name || undefined });
+		} else if (trimmed.includes('@')) {
+			addresses.push({ email: trimmed.toLowerCase() });
+		}
+	}
+
+	return addresses;
+}
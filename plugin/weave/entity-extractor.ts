@@ -10,7 +10,31 @@ import {
 	ExtractionResult,
 	ExtractionContext,
 	ConfidenceLevel,
+	EmailThread,
 } from './types';
+import { HttpTransport } from '../sync/types';
+import { getHttpTransport } from '../sync/http-transport';
+import { DataSourceRegistry } from '../sync/data-source-registry';
+
+/**
+ * Longest email body sent to the model, in characters
+ */
+const MAX_PROMPT_BODY_LENGTH = 4000;
+
+/**
+ * Total email body text sent for a thread, in characters
+ */
+const MAX_PROMPT_THREAD_BODY_LENGTH = 8000;
+
+/**
+ * Messages of a thread sent to the model: the first plus the most recent
+ */
+const MAX_PROMPT_THREAD_MESSAGES = 10;
+
+/**
+ * Longest note sent to the model, in characters
+ */
+const MAX_PROMPT_NOTE_LENGTH = 8000;
 
 /**
  * Entity extraction service using Claude
@@ -18,10 +42,24 @@ import {
 export class EntityExtractor {
 	private apiKey: string;
 	private model: string;
+	private transport?: HttpTransport;
+	private registry?: DataSourceRegistry;
 
-	constructor(apiKey: string, model: string = 'claude-haiku-3-5-20241022') {
+	constructor(
+		apiKey: string,
+		model: string = 'claude-haiku-3-5-20241022',
+		transport?: HttpTransport
+	) {
 		this.apiKey = apiKey;
 		this.model = model;
+		this.transport = transport;
+	}
+
+	/**
+	 * Set the registry whose sources supply prompts for their own data
+	 */
+	setDataSourceRegistry(registry: DataSourceRegistry): void {
+		this.registry = registry;
 	}
 
 	/**
@@ -52,13 +90,31 @@ export class EntityExtractor {
 		switch (dataSource) {
 			case 'google':
 				dataDescription = this.buildGooglePrompt(dataType, data);
+				if (dataType === 'email_thread') {
+					specificInstructions = `This is a whole conversation. Use who writes to whom, how often and how quickly they reply:
+- Add WORKS_WITH between participants who discuss work, projects or organizations together
+- Add KNOWS between participants who correspond personally
+- Record each person's email address as an attribute`;
+				}
 				break;
 			case 'spotify':
 				dataDescription = this.buildSpotifyPrompt(dataType, data);
 				break;
 			case 'ynab':
+			case 'bank':
 				dataDescription = this.buildYNABPrompt(dataType, data);
 				break;
+			case 'vault':
+				dataDescription = this.buildNotePrompt(data);
+				specificInstructions = `This is a note the user wrote. Mentions of "I" and "me" refer to the user. Prefer facts the note states over guesses.`;
+				break;
+			case 'health':
+				dataDescription = this.buildHealthPrompt(data);
+				specificInstructions = `This is one day of health data. Extract activities (workouts, sports) the person does, not individual measurements.`;
+				break;
+			default:
+				dataDescription = this.buildRegisteredSourcePrompt(dataSource, dataType, data);
+				break;
 		}
 
 		return `You are an AI assistant extracting structured information from personal data to build a knowledge graph about someone's life.
@@ -112,12 +168,24 @@ Return ONLY the JSON object, no explanation.`;
 	 */
 	private buildGooglePrompt(dataType: string, data: any): string {
 		if (dataType === 'email') {
+			const body = data.body
+				? this.truncate(data.body, MAX_PROMPT_BODY_LENGTH)
+				: data.snippet;
+			const attachments = data.attachments?.length
+				? data.attachments
+						.map((a: any) => `${a.filename} (${a.mimeType}, ${a.size} bytes)`)
+						.join(', ')
+				: 'None';
 			return `Email:
 From: ${data.from}
 To: ${data.to}
 Subject: ${data.subject}
 Date: ${data.date}
-Snippet: ${data.snippet}`;
+Attachments: ${attachments}
+Body:
+${body}`;
+		} else if (dataType === 'email_thread') {
+			return this.buildEmailThreadPrompt(data as EmailThread);
 		} else if (dataType === 'calendar_event') {
 			const attendees = data.attendees
 				? data.attendees.map((a: any) => a.email || a.displayName).join(', ')
@@ -139,6 +207,69 @@ Owners: ${data.owners?.map((o: any) => o.displayName || o.emailAddress).join(',
 		return JSON.stringify(data);
 	}
 
+	/**
+	 * Build prompt for a whole email thread
+	 */
+	private buildEmailThreadPrompt(thread: EmailThread): string {
+		const participants = thread.participants
+			.map((p) => {
+				const name = p.name ? `${p.name} <${p.email}>` : p.email;
+				return `- ${name}${p.isUser ? ' (user)' : ''}: ${p.messagesSent} message(s) sent`;
+			})
+			.join('\n');
+
+		const latency = thread.averageReplyLatencyMs !== undefined
+			? `${Math.round(thread.averageReplyLatencyMs / 3600000)} hour(s)`
+			: 'N/A';
+
+		const awaiting = thread.awaitingReplyFrom === 'user'
+			? 'The user owes a reply'
+			: thread.awaitingReplyFrom === 'others'
+				? 'Waiting on others to reply'
+				: 'Nobody';
+
+		// Long threads keep the opening message and the latest ones
+		const numbered = thread.messages.map((message, i) => ({ message, number: i + 1 }));
+		const included = numbered.length > MAX_PROMPT_THREAD_MESSAGES
+			? [numbered[0], ...numbered.slice(-(MAX_PROMPT_THREAD_MESSAGES - 1))]
+			: numbered;
+		const omitted = numbered.length - included.length;
+
+		// The included messages share one body budget
+		const perMessageLength = Math.floor(MAX_PROMPT_THREAD_BODY_LENGTH / Math.max(included.length, 1));
+
+		const messages = included
+			.map(({ message: m, number }, i) => {
+				const attachments = m.attachments?.length
+					? `\nAttachments: ${m.attachments.map((a) => a.filename).join(', ')}`
+					: '';
+				const gap = i === 1 && omitted > 0 ? `[${omitted} message(s) omitted]\n\n` : '';
+				return `${gap}--- Message ${number} ---
+From: ${m.from}
+To: ${m.to}${m.cc ? `\nCc: ${m.cc}` : ''}
+Date: ${m.date}${attachments}
+${this.truncate(m.body, perMessageLength)}`;
+			})
+			.join('\n\n');
+
+		return `Email Thread:
+Subject: ${thread.subject}
+Messages: ${thread.messages.length}
+Participants:
+${participants}
+Average reply time: ${latency}
+Awaiting reply: ${awaiting}
+
+${messages}`;
+	}
+
+	/**
+	 * Shorten text to a maximum length, marking the cut
+	 */
+	private truncate(text: string, maxLength: number): string {
+		return text.length > maxLength ? `${text.slice(0, maxLength)}\n[...truncated]` : text;
+	}
+
 	/**
 	 * Build prompt for Spotify data
 	 */
@@ -166,7 +297,7 @@ Added: ${data.addedAt}`;
 	}
 
 	/**
-	 * Build prompt for YNAB data
+	 * Build prompt for YNAB data (imported bank transactions share its shape)
 	 */
 	private buildYNABPrompt(dataType: string, data: any): string {
 		if (dataType === 'transaction') {
@@ -177,15 +308,67 @@ Payee: ${data.payeeName || 'Unknown'}
 Category: ${data.categoryName || 'Uncategorized'}
 Account: ${data.accountName}
 Memo: ${data.memo || 'None'}`;
+		} else if (dataType === 'account_balance') {
+			return `Account Balance:
+Account: ${data.accountName}
+Balance: ${data.balance.toFixed(2)}${data.currency ? ` ${data.currency}` : ''}
+As Of: ${data.asOf}`;
 		}
 		return JSON.stringify(data);
 	}
 
+	/**
+	 * Build prompt for a vault note
+	 */
+	private buildNotePrompt(data: any): string {
+		return `Note:
+Title: ${data.title}
+Folder: ${data.folder || '/'}
+Created: ${new Date(data.created).toISOString()}
+
+${this.truncate(data.content || '', MAX_PROMPT_NOTE_LENGTH)}`;
+	}
+
+	/**
+	 * Build prompt for a daily Apple Health summary
+	 */
+	private buildHealthPrompt(data: any): string {
+		const lines = [`Daily Health Summary:`, `Date: ${data.date}`];
+		if (data.steps !== null) lines.push(`Steps: ${data.steps}`);
+		if (data.sleepMinutes !== null) lines.push(`Sleep: ${(data.sleepMinutes / 60).toFixed(1)} hours`);
+		if (data.mindfulMinutes !== null) lines.push(`Mindful Minutes: ${data.mindfulMinutes}`);
+		if (data.heartRate) {
+			const resting = data.heartRate.resting !== null ? `, resting ${data.heartRate.resting}` : '';
+			lines.push(`Heart Rate: ${data.heartRate.min}-${data.heartRate.max} bpm, average ${data.heartRate.average}${resting}`);
+		}
+		for (const workout of data.workouts || []) {
+			const distance = workout.distance !== null ? `, ${workout.distance} ${workout.distanceUnit}` : '';
+			lines.push(`Workout: ${workout.activity} at ${workout.start} for ${workout.minutes} minutes${distance}`);
+		}
+		return lines.join('\n');
+	}
+
+	/**
+	 * Build prompt for a registered third-party source
+	 */
+	private buildRegisteredSourcePrompt(dataSource: string, dataType: string, data: any): string {
+		const descriptor = this.registry?.get(dataSource);
+		if (descriptor?.buildExtractionPrompt) {
+			return descriptor.buildExtractionPrompt(dataType, data);
+		}
+
+		const label = this.registry?.getDataTypeLabel(dataSource, dataType) ?? dataType;
+		return `${label} (${descriptor?.displayName ?? dataSource}):
+${JSON.stringify(data)}`;
+	}
+
 	/**
 	 * Call Claude API
 	 */
 	private async callClaude(prompt: string): Promise<string> {
-		const response = await fetch('https://api.anthropic.com/v1/messages', {
+		const transport = this.transport ?? getHttpTransport();
+		const response = await transport.request({
+			url: 'https://api.anthropic.com/v1/messages',
 			method: 'POST',
 			headers: {
 				'Content-Type': 'application/json',
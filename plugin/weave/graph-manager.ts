@@ -3,7 +3,7 @@
  * Manages The Weave knowledge graph operations
  */
 
-import { db } from '../database';
+import { GenerousAIDatabase } from '../database';
 import {
 	WeaveEntity,
 	WeaveRelationship,
@@ -17,6 +17,12 @@ import {
  * The Weave Graph Manager
  */
 export class GraphManager {
+	private db: GenerousAIDatabase;
+
+	constructor(database: GenerousAIDatabase) {
+		this.db = database;
+	}
+
 	/**
 	 * Add or update an entity in the graph
 	 */
@@ -50,7 +56,7 @@ export class GraphManager {
 				updatedSources.push(source);
 			}
 
-			await db.entities.update(existing.id!, {
+			await this.db.entities.update(existing.id!, {
 				attributes: updatedAttributes,
 				sources: updatedSources,
 				lastSeen: Date.now(),
@@ -62,7 +68,7 @@ export class GraphManager {
 			return existing.id!;
 		} else {
 			// Create new entity
-			return (await db.entities.add({
+			return (await this.db.entities.add({
 				type,
 				name: this.normalizeName(name),
 				confidence,
@@ -107,7 +113,7 @@ export class GraphManager {
 				updatedSources.push(source);
 			}
 
-			await db.relationships.update(existing.id!, {
+			await this.db.relationships.update(existing.id!, {
 				attributes: updatedAttributes,
 				sources: updatedSources,
 				updatedAt: Date.now(),
@@ -117,7 +123,7 @@ export class GraphManager {
 			return existing.id!;
 		} else {
 			// Create new relationship
-			return (await db.relationships.add({
+			return (await this.db.relationships.add({
 				fromEntityId,
 				toEntityId,
 				type,
@@ -199,6 +205,93 @@ export class GraphManager {
 		};
 	}
 
+	/**
+	 * Remove provenance for purged data
+	 * Entities and relationships left without any source are deleted, along with
+	 * relationships that pointed at deleted entities
+	 */
+	async removeSources(
+		isRemoved: (source: EntitySource) => boolean
+	): Promise<{ entitiesRemoved: number; relationshipsRemoved: number }> {
+		let entitiesRemoved = 0;
+		let relationshipsRemoved = 0;
+
+		await this.db.transaction('rw', this.db.entities, this.db.relationships, async () => {
+			const removedEntityIds = new Set<number>();
+
+			for (const entity of await this.db.entities.toArray()) {
+				const sources = (entity.sources as EntitySource[]).filter((s) => !isRemoved(s));
+				if (sources.length === entity.sources.length) {
+					continue;
+				}
+
+				if (sources.length === 0) {
+					await this.db.entities.delete(entity.id!);
+					removedEntityIds.add(entity.id!);
+					entitiesRemoved++;
+				} else {
+					await this.db.entities.update(entity.id!, { sources, updatedAt: Date.now() });
+				}
+			}
+
+			for (const rel of await this.db.relationships.toArray()) {
+				const sources = (rel.sources as EntitySource[]).filter((s) => !isRemoved(s));
+				const orphaned =
+					removedEntityIds.has(rel.fromEntityId) || removedEntityIds.has(rel.toEntityId);
+
+				if (orphaned || sources.length === 0) {
+					await this.db.relationships.delete(rel.id!);
+					relationshipsRemoved++;
+				} else if (sources.length !== rel.sources.length) {
+					await this.db.relationships.update(rel.id!, { sources, updatedAt: Date.now() });
+				}
+			}
+		});
+
+		return { entitiesRemoved, relationshipsRemoved };
+	}
+
+	/**
+	 * Keep facts whose raw data expired, turning their sources into provenance stubs
+	 * so the graph can still say where a fact came from
+	 */
+	async markSourcesPurged(isPurged: (source: EntitySource) => boolean): Promise<number> {
+		const purgedAt = Date.now();
+		let updated = 0;
+
+		const stub = (sources: EntitySource[]): EntitySource[] | null => {
+			let changed = false;
+			const result = sources.map((s) => {
+				if (s.rawDataPurgedAt || !isPurged(s)) {
+					return s;
+				}
+				changed = true;
+				return { ...s, rawDataPurgedAt: purgedAt };
+			});
+			return changed ? result : null;
+		};
+
+		await this.db.transaction('rw', this.db.entities, this.db.relationships, async () => {
+			for (const entity of await this.db.entities.toArray()) {
+				const sources = stub(entity.sources);
+				if (sources) {
+					await this.db.entities.update(entity.id!, { sources });
+					updated++;
+				}
+			}
+
+			for (const rel of await this.db.relationships.toArray()) {
+				const sources = stub(rel.sources);
+				if (sources) {
+					await this.db.relationships.update(rel.id!, { sources });
+					updated++;
+				}
+			}
+		});
+
+		return updated;
+	}
+
 	/**
 	 * Find entity by name (case-insensitive)
 	 */
@@ -208,13 +301,20 @@ export class GraphManager {
 	): Promise<any | undefined> {
 		const normalizedName = this.normalizeName(name);
 
-		const entities = await db.entities.where('type').equals(type).toArray();
+		const byName = await this.db.entities
+			.where('[type+name]')
+			.equals([type, normalizedName])
+			.first();
+		if (byName) {
+			return byName;
+		}
 
-		return entities.find(
-			(e) =>
-				this.normalizeName(e.name) === normalizedName ||
-				e.aliases?.some((a: string) => this.normalizeName(a) === normalizedName)
-		);
+		// Aliases are stored normalized
+		return await this.db.entities
+			.where('aliases')
+			.equals(normalizedName)
+			.filter((e) => e.type === type)
+			.first();
 	}
 
 	/**
@@ -225,12 +325,10 @@ export class GraphManager {
 		toId: number,
 		type: RelationshipType
 	): Promise<any | undefined> {
-		const relationships = await db.relationships
-			.where('fromEntityId')
-			.equals(fromId)
-			.toArray();
-
-		return relationships.find((r) => r.toEntityId === toId && r.type === type);
+		return await this.db.relationships
+			.where('[fromEntityId+toEntityId+type]')
+			.equals([fromId, toId, type])
+			.first();
 	}
 
 	/**
@@ -244,7 +342,7 @@ export class GraphManager {
 	 * Get entity by ID
 	 */
 	async getEntity(id: number): Promise<any | undefined> {
-		return await db.entities.get(id);
+		return await this.db.entities.get(id);
 	}
 
 	/**
@@ -254,14 +352,14 @@ export class GraphManager {
 		type: EntityType,
 		limit?: number
 	): Promise<any[]> {
-		return await db.getEntitiesByType(type, limit);
+		return await this.db.getEntitiesByType(type, limit);
 	}
 
 	/**
 	 * Get relationships for an entity
 	 */
 	async getEntityRelationships(entityId: number): Promise<any[]> {
-		return await db.getEntityRelationships(entityId);
+		return await this.db.getEntityRelationships(entityId);
 	}
 
 	/**
@@ -270,7 +368,7 @@ export class GraphManager {
 	async searchEntities(query: string, limit: number = 10): Promise<any[]> {
 		const normalizedQuery = query.toLowerCase();
 
-		const allEntities = await db.entities.toArray();
+		const allEntities = await this.db.entities.toArray();
 
 		const matches = allEntities.filter(
 			(e) =>
@@ -354,8 +452,8 @@ export class GraphManager {
 		entitiesByType: Record<EntityType, number>;
 		topEntities: Array<{ id: number; name: string; occurrenceCount: number }>;
 	}> {
-		const allEntities = await db.entities.toArray();
-		const allRelationships = await db.relationships.toArray();
+		const allEntities = await this.db.entities.toArray();
+		const allRelationships = await this.db.relationships.toArray();
 
 		const entitiesByType: any = {};
 		for (const entity of allEntities) {
@@ -404,10 +502,12 @@ export class GraphManager {
 			...(keepEntity.aliases || []),
 			...(mergeEntity.aliases || []),
 			mergeEntity.name,
-		].filter((v, i, a) => a.indexOf(v) === i); // Deduplicate
+		]
+			.map((alias) => this.normalizeName(alias))
+			.filter((v, i, a) => a.indexOf(v) === i); // Deduplicate
 
 		// Update keep entity
-		await db.entities.update(keepId, {
+		await this.db.entities.update(keepId, {
 			attributes: mergedAttributes,
 			sources: mergedSources,
 			aliases: mergedAliases,
@@ -416,17 +516,17 @@ export class GraphManager {
 		});
 
 		// Update all relationships pointing to mergeEntity
-		const relationships = await db.relationships.toArray();
+		const relationships = await this.db.relationships.toArray();
 		for (const rel of relationships) {
 			if (rel.fromEntityId === mergeId) {
-				await db.relationships.update(rel.id!, { fromEntityId: keepId });
+				await this.db.relationships.update(rel.id!, { fromEntityId: keepId });
 			}
 			if (rel.toEntityId === mergeId) {
-				await db.relationships.update(rel.id!, { toEntityId: keepId });
+				await this.db.relationships.update(rel.id!, { toEntityId: keepId });
 			}
 		}
 
 		// Delete merged entity
-		await db.entities.delete(mergeId);
+		await this.db.entities.delete(mergeId);
 	}
 }
@@ -3,18 +3,23 @@
  * Analyzes The Weave to detect patterns, routines, and insights
  */
 
-import { db } from '../database';
+import { GenerousAIDatabase } from '../database';
 import { WeavePattern, WeaveInsight } from './types';
 import { GraphManager } from './graph-manager';
+import { DataSourceRegistry } from '../sync/data-source-registry';
 
 /**
  * Pattern detection service
  */
 export class PatternDetector {
 	private graphManager: GraphManager;
+	private db: GenerousAIDatabase;
+	private registry: DataSourceRegistry;
 
-	constructor(graphManager: GraphManager) {
+	constructor(graphManager: GraphManager, database: GenerousAIDatabase, registry: DataSourceRegistry) {
 		this.graphManager = graphManager;
+		this.db = database;
+		this.registry = registry;
 	}
 
 	/**
@@ -38,7 +43,7 @@ export class PatternDetector {
 		const patterns: WeavePattern[] = [];
 
 		// Analyze temporal data from different sources
-		const cachedData = await db.cachedData.toArray();
+		const cachedData = await this.db.cachedData.toArray();
 
 		// Group by data type and analyze frequency
 		const dataByType = new Map<string, any[]>();
@@ -76,12 +81,35 @@ export class PatternDetector {
 		}
 
 		// Detect spending routines
-		const ynabData = cachedData.filter((d) => d.source === 'ynab');
+		const ynabData = cachedData.filter(
+			(d) => d.source === 'ynab' || (d.source === 'bank' && d.dataType === 'transaction')
+		);
 		if (ynabData.length > 0) {
 			const spendingPatterns = await this.detectSpendingRoutines(ynabData);
 			patterns.push(...spendingPatterns);
 		}
 
+		// Detect exercise routines
+		const healthData = cachedData.filter((d) => d.source === 'health' && d.dataType === 'health');
+		if (healthData.length > 0) {
+			const healthPatterns = await this.detectHealthRoutines(healthData);
+			patterns.push(...healthPatterns);
+		}
+
+		// Routines from registered sources' own detectors
+		for (const descriptor of this.registry.getAll()) {
+			if (!descriptor.detectPatterns) continue;
+
+			const sourceData = cachedData.filter((d) => d.source === descriptor.id);
+			if (sourceData.length === 0) continue;
+
+			try {
+				patterns.push(...(await descriptor.detectPatterns(sourceData, this.graphManager)));
+			} catch (error) {
+				console.error(`Pattern detection failed for ${descriptor.displayName}:`, error);
+			}
+		}
+
 		return patterns;
 	}
 
@@ -276,6 +304,55 @@ export class PatternDetector {
 		return patterns;
 	}
 
+	/**
+	 * Detect exercise routines from daily health summaries
+	 */
+	private async detectHealthRoutines(healthData: any[]): Promise<WeavePattern[]> {
+		const patterns: WeavePattern[] = [];
+
+		// Group workout days by activity
+		const activityDays = new Map<string, number[]>();
+		for (const day of healthData) {
+			const activities = new Set<string>((day.data.workouts || []).map((w: any) => w.activity));
+			for (const activity of activities) {
+				if (!activityDays.has(activity)) {
+					activityDays.set(activity, []);
+				}
+				activityDays.get(activity)!.push(new Date(day.data.date).getTime());
+			}
+		}
+
+		// Find regular activities (5+ days)
+		for (const [activity, timestamps] of activityDays) {
+			if (timestamps.length < 5) continue;
+
+			timestamps.sort((a, b) => a - b);
+			const avgInterval = (timestamps[timestamps.length - 1] - timestamps[0]) / (timestamps.length - 1);
+			const frequency = this.determineFrequency(avgInterval);
+			const entities = await this.graphManager.searchEntities(activity, 1);
+
+			patterns.push({
+				id: 0,
+				type: 'routine',
+				name: `Regular ${activity.toLowerCase()}`,
+				description: `${activity} ${frequency} (${timestamps.length} days)`,
+				confidence: Math.min(0.9, timestamps.length / 20),
+				entities: entities.map((e) => e.id),
+				relationships: [],
+				temporal: {
+					frequency,
+					startDate: timestamps[0],
+					endDate: timestamps[timestamps.length - 1],
+				},
+				significance: timestamps.length / healthData.length,
+				detectedAt: Date.now(),
+				metadata: { count: timestamps.length, activity },
+			});
+		}
+
+		return patterns;
+	}
+
 	/**
 	 * Detect trends (increasing or decreasing patterns)
 	 */
@@ -294,7 +371,7 @@ export class PatternDetector {
 		const patterns: WeavePattern[] = [];
 
 		// Find groups of people who frequently appear together
-		const relationships = await db.relationships.toArray();
+		const relationships = await this.db.relationships.toArray();
 
 		// Build adjacency map
 		const adjacency = new Map<number, Set<number>>();
@@ -3,6 +3,8 @@
  * Types for entities, relationships, and graph operations
  */
 
+import { DataSource } from '../sync/types';
+
 /**
  * Entity types in The Weave
  */
@@ -111,11 +113,12 @@ export interface WeaveRelationship {
  * Source information for entities and relationships
  */
 export interface EntitySource {
-	dataSource: 'google' | 'spotify' | 'ynab' | 'manual' | 'inferred';
+	dataSource: DataSource | 'manual' | 'inferred';
 	dataType: string; // e.g., 'email', 'calendar_event', 'recently_played'
 	dataId: string;
 	extractedAt: number;
 	context?: string;
+	rawDataPurgedAt?: number; // Raw item expired under a retention policy - provenance stub only
 }
 
 /**
@@ -166,6 +169,46 @@ export interface WeaveInsight {
 	metadata?: Record<string, any>;
 }
 
+/**
+ * A message within a reconstructed email thread
+ */
+export interface EmailThreadMessage {
+	id: string;
+	from: string;
+	to: string;
+	cc?: string;
+	date: string;
+	timestamp: number;
+	fromMe: boolean;
+	body: string;
+	attachments?: Array<{ filename: string; mimeType: string; size: number }>;
+}
+
+/**
+ * Someone who took part in an email thread
+ */
+export interface EmailThreadParticipant {
+	email: string;
+	name?: string;
+	messagesSent: number;
+	isUser: boolean;
+}
+
+/**
+ * Gmail messages grouped by threadId, oldest first
+ */
+export interface EmailThread {
+	threadId: string;
+	subject: string;
+	messages: EmailThreadMessage[];
+	participants: EmailThreadParticipant[];
+	firstMessageAt: number;
+	lastMessageAt: number;
+	replyLatencies: Array<{ from: string; latencyMs: number }>; // Time taken to answer the previous sender
+	averageReplyLatencyMs?: number;
+	awaitingReplyFrom: 'user' | 'others' | null; // Who owes the next reply
+}
+
 /**
  * Extraction result from LLM
  */
@@ -194,7 +237,7 @@ export interface ExtractionResult {
  * LLM extraction prompt context
  */
 export interface ExtractionContext {
-	dataSource: 'google' | 'spotify' | 'ynab';
+	dataSource: DataSource;
 	dataType: string;
 	data: any;
 	userName?: string; // User's own name for context
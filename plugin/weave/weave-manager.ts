@@ -8,8 +8,41 @@ import GenerousAIPlugin from '../main';
 import { EntityExtractor } from './entity-extractor';
 import { GraphManager } from './graph-manager';
 import { PatternDetector } from './pattern-detector';
-import { ExtractionContext, EntitySource } from './types';
-import { db } from '../database';
+import { buildEmailThread, buildEmailThreads } from './email-threads';
+import { ExtractionContext, EntitySource, EmailThread } from './types';
+import { CachedData, GenerousAIDatabase } from '../database';
+import { CachedDataChange, DataSource } from '../sync/types';
+import { VAULT_NOTES_SOURCE } from '../sync/vault-notes';
+
+/**
+ * Quiet period after the last synced change before queued changes are extracted,
+ * so a sync's pages are extracted together once it finishes
+ */
+const AUTO_EXTRACT_DELAY_MS = 30 * 1000;
+
+/**
+ * Changed items kept waiting for extraction - the oldest are dropped beyond this
+ */
+const MAX_QUEUED_CHANGES = 1000;
+
+/**
+ * A synced change waiting for extraction
+ * Only the key is kept; the item is read from the cache when its turn comes
+ */
+interface QueuedChange {
+	source: DataSource;
+	dataType: string;
+	externalId: string;
+	threadId?: string; // Emails are extracted per thread
+}
+
+/**
+ * Source facts from a cached item are credited to
+ * Vault notes are the user's own writing, so their facts count as manual
+ */
+function getCreditedSource(source: DataSource): EntitySource['dataSource'] {
+	return source === VAULT_NOTES_SOURCE ? 'manual' : source;
+}
 
 /**
  * The Weave Manager
@@ -17,14 +50,20 @@ import { db } from '../database';
  */
 export class WeaveManager {
 	private plugin: GenerousAIPlugin;
+	private db: GenerousAIDatabase;
 	private extractor: EntityExtractor | null = null;
 	private graphManager: GraphManager;
 	private patternDetector: PatternDetector;
+	private changeQueue: Promise<void> = Promise.resolve();
+	private pendingChanges = new Map<string, QueuedChange>(); // Keyed by extraction unit
+	private extractedThreads = new Map<string, string>(); // threadId -> thread version last extracted
+	private extractTimer: number | null = null;
 
-	constructor(plugin: GenerousAIPlugin) {
+	constructor(plugin: GenerousAIPlugin, database: GenerousAIDatabase) {
 		this.plugin = plugin;
-		this.graphManager = new GraphManager();
-		this.patternDetector = new PatternDetector(this.graphManager);
+		this.db = database;
+		this.graphManager = new GraphManager(database);
+		this.patternDetector = new PatternDetector(this.graphManager, database, plugin.dataSources);
 	}
 
 	/**
@@ -40,6 +79,7 @@ export class WeaveManager {
 		}
 
 		this.extractor = new EntityExtractor(apiKey);
+		this.extractor.setDataSourceRegistry(this.plugin.dataSources);
 		console.log('Weave initialized with entity extractor');
 	}
 
@@ -57,7 +97,7 @@ export class WeaveManager {
 		new Notice('Building The Weave from your data...');
 
 		// Get all cached data
-		const allData = await db.cachedData.toArray();
+		const allData = await this.db.cachedData.toArray();
 
 		if (allData.length === 0) {
 			new Notice('No data to process - sync your data sources first');
@@ -69,33 +109,28 @@ export class WeaveManager {
 			.sort((a, b) => b.lastUpdated - a.lastUpdated)
 			.slice(0, 100);
 
+		const units = this.buildExtractionUnits(recentData, allData);
+
 		let processed = 0;
 		let totalEntities = 0;
 		let totalRelationships = 0;
 
 		// Process in batches
 		const batchSize = 10;
-		for (let i = 0; i < recentData.length; i += batchSize) {
-			const batch = recentData.slice(i, i + batchSize);
-
-			// Build extraction contexts
-			const contexts: ExtractionContext[] = batch.map((item) => ({
-				dataSource: item.source as any,
-				dataType: item.dataType,
-				data: item.data,
-			}));
+		for (let i = 0; i < units.length; i += batchSize) {
+			const batch = units.slice(i, i + batchSize);
 
 			try {
 				// Extract entities from batch
 				const results = await this.extractor.extractBatch(
-					contexts,
+					batch.map((unit) => unit.context),
 					(batchProgress, batchTotal) => {
 						const overall = i + batchProgress;
 						if (progressCallback) {
 							progressCallback(
 								'Extracting entities...',
 								overall,
-								recentData.length
+								units.length
 							);
 						}
 					}
@@ -103,19 +138,9 @@ export class WeaveManager {
 
 				// Process extraction results
 				for (let j = 0; j < results.length; j++) {
-					const result = results[j];
-					const item = batch[j];
-
-					const source: EntitySource = {
-						dataSource: item.source as any,
-						dataType: item.dataType,
-						dataId: item.externalId,
-						extractedAt: Date.now(),
-					};
-
 					const stats = await this.graphManager.processExtractionResult(
-						result,
-						source
+						results[j],
+						{ ...batch[j].source, extractedAt: Date.now() }
 					);
 
 					totalEntities += stats.entitiesAdded;
@@ -125,7 +150,7 @@ export class WeaveManager {
 				processed += batch.length;
 
 				if (progressCallback) {
-					progressCallback('Processing...', processed, recentData.length);
+					progressCallback('Processing...', processed, units.length);
 				}
 			} catch (error) {
 				console.error('Batch extraction failed:', error);
@@ -134,7 +159,7 @@ export class WeaveManager {
 
 		// Detect patterns
 		if (progressCallback) {
-			progressCallback('Detecting patterns...', recentData.length, recentData.length);
+			progressCallback('Detecting patterns...', units.length, units.length);
 		}
 
 		await this.detectAndSavePatterns();
@@ -144,11 +169,128 @@ export class WeaveManager {
 		);
 	}
 
+	/**
+	 * Turn cached items into extraction units, one per email thread
+	 * and one per other item
+	 */
+	private buildExtractionUnits(
+		items: CachedData[],
+		allData: CachedData[]
+	): Array<{ context: ExtractionContext; source: Omit<EntitySource, 'extractedAt'> }> {
+		const units: Array<{
+			context: ExtractionContext;
+			source: Omit<EntitySource, 'extractedAt'>;
+		}> = [];
+
+		const recentEmails = items.filter((item) => this.isEmail(item));
+		const threadIds = new Set(recentEmails.map((item) => item.data.threadId || item.externalId));
+
+		// Include older messages of each thread so the whole conversation is seen
+		const threadEmails = allData.filter(
+			(item) => this.isEmail(item) && threadIds.has(item.data.threadId || item.externalId)
+		);
+
+		for (const thread of buildEmailThreads(threadEmails)) {
+			units.push({
+				context: { dataSource: 'google', dataType: 'email_thread', data: thread },
+				source: { dataSource: 'google', dataType: 'email_thread', dataId: thread.threadId },
+			});
+		}
+
+		for (const item of items) {
+			if (this.isEmail(item)) continue;
+
+			units.push({
+				context: {
+					dataSource: item.source,
+					dataType: item.dataType,
+					data: item.data,
+				},
+				source: {
+					dataSource: getCreditedSource(item.source),
+					dataType: item.dataType,
+					dataId: item.externalId,
+				},
+			});
+		}
+
+		return units;
+	}
+
+	/**
+	 * Whether a cached item is a Gmail message
+	 */
+	private isEmail(item: CachedData): boolean {
+		return item.source === 'google' && item.dataType === 'email';
+	}
+
+	/**
+	 * Rebuild the thread a cached email belongs to
+	 */
+	private async loadEmailThread(threadId: string): Promise<EmailThread | null> {
+		const emails = await this.db.cachedData
+			.where('[source+dataType+data.threadId]')
+			.equals(['google', 'email', threadId])
+			.toArray();
+
+		// A message cached without a threadId is its own thread
+		if (emails.length === 0) {
+			const message = await this.db.cachedData
+				.where('[source+dataType+externalId]')
+				.equals(['google', 'email', threadId])
+				.first();
+			if (message && !message.data.threadId) {
+				emails.push(message);
+			}
+		}
+
+		return emails.length > 0 ? buildEmailThread(threadId, emails) : null;
+	}
+
+	/**
+	 * Drop graph facts that came only from purged cached items
+	 */
+	async forgetCachedItems(
+		items: CachedData[]
+	): Promise<{ entitiesRemoved: number; relationshipsRemoved: number }> {
+		const isPurged = await this.getPurgedSourceMatcher(items);
+		return await this.graphManager.removeSources(isPurged);
+	}
+
+	/**
+	 * Keep graph facts from expired cached items, recording that their raw data is gone
+	 */
+	async markCachedItemsExpired(items: CachedData[]): Promise<number> {
+		const isPurged = await this.getPurgedSourceMatcher(items);
+		return await this.graphManager.markSourcesPurged(isPurged);
+	}
+
+	/**
+	 * Which entity sources pointed at deleted cached items
+	 * An email thread stays a source until none of its messages remain
+	 */
+	private async getPurgedSourceMatcher(items: CachedData[]): Promise<(source: EntitySource) => boolean> {
+		const removed = new Set(
+			items.map((item) => `${getCreditedSource(item.source)}:${item.dataType}:${item.externalId}`)
+		);
+
+		const threadIds = new Set(
+			items.filter((item) => this.isEmail(item)).map((item) => item.data.threadId || item.externalId)
+		);
+		for (const threadId of threadIds) {
+			if (!(await this.loadEmailThread(threadId))) {
+				removed.add(`google:email_thread:${threadId}`);
+			}
+		}
+
+		return (source) => removed.has(`${source.dataSource}:${source.dataType}:${source.dataId}`);
+	}
+
 	/**
 	 * Process new synced data
 	 */
 	async processNewData(
-		dataSource: 'google' | 'spotify' | 'ynab',
+		dataSource: DataSource,
 		dataType: string,
 		data: any,
 		dataId: string
@@ -158,6 +300,17 @@ export class WeaveManager {
 		}
 
 		try {
+			// Emails are extracted as part of their whole thread
+			if (dataSource === 'google' && dataType === 'email') {
+				const threadId = data.threadId || dataId;
+				const thread = await this.loadEmailThread(threadId);
+				if (thread) {
+					dataType = 'email_thread';
+					data = thread;
+					dataId = threadId;
+				}
+			}
+
 			// Extract entities
 			const context: ExtractionContext = {
 				dataSource,
@@ -169,7 +322,7 @@ export class WeaveManager {
 
 			// Add to graph
 			const source: EntitySource = {
-				dataSource,
+				dataSource: getCreditedSource(dataSource),
 				dataType,
 				dataId,
 				extractedAt: Date.now(),
@@ -181,6 +334,108 @@ export class WeaveManager {
 		}
 	}
 
+	/**
+	 * Queue items a sync added or modified for extraction, when auto-extraction is on
+	 * The queue is extracted once syncing goes quiet, at most autoExtractLimit units per run;
+	 * the rest wait for the next run. Emails are queued once per thread
+	 */
+	processChanges(changes: CachedDataChange[]): void {
+		if (!this.extractor || !this.plugin.settings.autoExtractChanges) {
+			return;
+		}
+
+		for (const change of changes) {
+			const isEmail = change.source === 'google' && change.dataType === 'email';
+			const threadId = isEmail ? change.data.threadId || change.externalId : undefined;
+			const key = threadId
+				? `google:email_thread:${threadId}`
+				: `${change.source}:${change.dataType}:${change.externalId}`;
+
+			this.pendingChanges.delete(key);
+			this.pendingChanges.set(key, {
+				source: change.source,
+				dataType: change.dataType,
+				externalId: change.externalId,
+				threadId,
+			});
+		}
+
+		while (this.pendingChanges.size > MAX_QUEUED_CHANGES) {
+			this.pendingChanges.delete(this.pendingChanges.keys().next().value as string);
+		}
+
+		if (this.extractTimer !== null) {
+			window.clearTimeout(this.extractTimer);
+		}
+		this.extractTimer = window.setTimeout(() => {
+			this.extractTimer = null;
+			this.changeQueue = this.changeQueue
+				.then(() => this.extractPendingChanges())
+				.catch((error) => console.error('Failed to process changes:', error));
+		}, AUTO_EXTRACT_DELAY_MS);
+	}
+
+	/**
+	 * Stop auto-extraction and drop queued changes
+	 */
+	cleanup(): void {
+		if (this.extractTimer !== null) {
+			window.clearTimeout(this.extractTimer);
+			this.extractTimer = null;
+		}
+		this.pendingChanges.clear();
+	}
+
+	/**
+	 * Extract one run's worth of queued changes, newest last
+	 */
+	private async extractPendingChanges(): Promise<void> {
+		const limit = Math.max(0, this.plugin.settings.autoExtractLimit);
+		const run = Array.from(this.pendingChanges.entries()).slice(0, limit);
+		for (const [key] of run) {
+			this.pendingChanges.delete(key);
+		}
+
+		for (const [, change] of run) {
+			await this.extractQueuedChange(change);
+		}
+
+		if (this.pendingChanges.size > 0) {
+			console.log(`${this.pendingChanges.size} changed item(s) left for the next extraction run`);
+		}
+	}
+
+	/**
+	 * Extract a queued change from its current cached version
+	 * A thread is skipped if it hasn't gained messages since it was last extracted
+	 */
+	private async extractQueuedChange(change: QueuedChange): Promise<void> {
+		if (change.threadId) {
+			const thread = await this.loadEmailThread(change.threadId);
+			if (!thread) {
+				return;
+			}
+
+			const version = getThreadVersion(thread);
+			if (this.extractedThreads.get(thread.threadId) === version) {
+				return;
+			}
+
+			await this.processNewData('google', 'email_thread', thread, thread.threadId);
+			this.extractedThreads.set(thread.threadId, version);
+			return;
+		}
+
+		// Items purged or excluded since they were queued are skipped
+		const item = await this.db.cachedData
+			.where('[source+dataType+externalId]')
+			.equals([change.source, change.dataType, change.externalId])
+			.first();
+		if (item) {
+			await this.processNewData(change.source, item.dataType, item.data, item.externalId);
+		}
+	}
+
 	/**
 	 * Detect and save patterns
 	 */
@@ -261,8 +516,8 @@ export class WeaveManager {
 	 * Export Weave as JSON
 	 */
 	async exportWeave(): Promise<any> {
-		const entities = await db.entities.toArray();
-		const relationships = await db.relationships.toArray();
+		const entities = await this.db.entities.toArray();
+		const relationships = await this.db.relationships.toArray();
 
 		return {
 			version: '1.0',
@@ -272,3 +527,11 @@ export class WeaveManager {
 		};
 	}
 }
+
+/**
+ * Identifies a thread's content: its message count and latest message
+ */
+function getThreadVersion(thread: EmailThread): string {
+	const latest = thread.messages[thread.messages.length - 1];
+	return `${thread.messages.length}:${latest?.id ?? ''}`;
+}